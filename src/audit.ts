@@ -0,0 +1,210 @@
+import { appendFile, mkdir, readFile, rename, rm, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { z } from "zod";
+import { MUTATING_TOOLS } from "./auth.js";
+import { getServerConfig } from "./config.js";
+import { logger } from "./logger.js";
+import { ErrorCode, ToolResult } from "./types.js";
+
+// Default audit log location, next to the user config file
+export const DEFAULT_AUDIT_PATH = join(homedir(), ".config", "lm-studio-mcp", "audit.jsonl");
+
+// Size at which the audit log is rotated (10 MiB)
+export const DEFAULT_AUDIT_MAX_BYTES = 10 * 1024 * 1024;
+
+// Rotated audit log files kept next to the current one (audit.jsonl.1 is the newest)
+export const DEFAULT_AUDIT_MAX_FILES = 5;
+
+// Schema for one line of the audit log
+export const auditEntrySchema = z.object({
+  timestamp: z.string(),
+  tool: z.string(),
+  client: z.object({ name: z.string(), version: z.string() }).optional(),
+  sessionId: z.string().optional(),
+  tokenName: z.string().optional(),
+  input: z.record(z.string(), z.unknown()),
+  success: z.boolean(),
+  message: z.string(),
+  errorCode: z.enum(ErrorCode).optional(),
+  durationMs: z.number(),
+});
+
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+
+/**
+ * Who made an audited tool call.
+ */
+export interface AuditCaller {
+  client?: { name: string; version: string };
+  sessionId?: string;
+  tokenName?: string;
+}
+
+/**
+ * Filters for reading the audit log. Every filter that is set must match.
+ */
+export interface AuditFilter {
+  tool?: string;
+  success?: boolean;
+  errorCode?: ErrorCode;
+  sessionId?: string;
+  clientName?: string;
+  since?: string;
+  limit: number;
+}
+
+/**
+ * Audit log settings in effect, or undefined when the config file disables the log.
+ * A leading `~` in the configured path is the home directory; relative paths resolve from the working directory.
+ */
+export function getAuditSettings(): { path: string; maxBytes: number; maxFiles: number } | undefined {
+  const audit = getServerConfig().audit;
+  if (audit?.enabled === false) {
+    return undefined;
+  }
+  return {
+    path: resolve((audit?.path ?? DEFAULT_AUDIT_PATH).replace(/^~(?=$|[\\/])/, homedir())),
+    maxBytes: audit?.maxBytes ?? DEFAULT_AUDIT_MAX_BYTES,
+    maxFiles: audit?.maxFiles ?? DEFAULT_AUDIT_MAX_FILES,
+  };
+}
+
+/**
+ * Whether calls to a tool are written to the audit log: every tool that needs the "write" scope.
+ */
+export function isAudited(toolName: string): boolean {
+  return MUTATING_TOOLS.has(toolName);
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+/**
+ * Shift audit.jsonl to audit.jsonl.1, audit.jsonl.1 to audit.jsonl.2 and so on, dropping the oldest file.
+ */
+async function rotate(path: string, maxFiles: number): Promise<void> {
+  await rm(`${path}.${maxFiles}`, { force: true });
+  for (let index = maxFiles - 1; index >= 1; index--) {
+    await rename(`${path}.${index}`, `${path}.${index + 1}`).catch((error) => {
+      if (!isMissingFile(error)) throw error;
+    });
+  }
+  await rename(path, `${path}.1`);
+}
+
+/**
+ * Append a line to the audit log, rotating it first if the line would take it over maxBytes.
+ */
+async function appendLine(settings: { path: string; maxBytes: number; maxFiles: number }, line: string) {
+  await mkdir(dirname(settings.path), { recursive: true });
+  const size = await stat(settings.path).then(
+    (stats) => stats.size,
+    (error) => {
+      if (isMissingFile(error)) return 0;
+      throw error;
+    },
+  );
+  if (size > 0 && size + Buffer.byteLength(line) > settings.maxBytes) {
+    await rotate(settings.path, settings.maxFiles);
+  }
+  await appendFile(settings.path, line, "utf8");
+}
+
+// Writes are chained so lines are never interleaved and rotation never races an append
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Write a tool call and its result to the audit log.
+ * Failures to write are logged and never fail the tool call.
+ */
+export function recordAuditEntry(
+  tool: string,
+  input: Record<string, unknown>,
+  result: ToolResult<unknown>,
+  caller: AuditCaller,
+  durationMs: number,
+): Promise<void> {
+  const settings = getAuditSettings();
+  if (!settings) {
+    return Promise.resolve();
+  }
+
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    tool,
+    ...caller,
+    input,
+    success: result.success,
+    message: result.message,
+    errorCode: result.error?.code,
+    durationMs,
+  };
+  const line = `${JSON.stringify(entry)}\n`;
+
+  writeQueue = writeQueue
+    .then(() => appendLine(settings, line))
+    .catch((error) => {
+      logger.warn(
+        `Failed to write audit log '${settings.path}':`,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    });
+  return writeQueue;
+}
+
+function matchesFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  return (
+    (filter.tool === undefined || entry.tool === filter.tool) &&
+    (filter.success === undefined || entry.success === filter.success) &&
+    (filter.errorCode === undefined || entry.errorCode === filter.errorCode) &&
+    (filter.sessionId === undefined || entry.sessionId === filter.sessionId) &&
+    (filter.clientName === undefined || entry.client?.name === filter.clientName) &&
+    (filter.since === undefined || Date.parse(entry.timestamp) >= Date.parse(filter.since))
+  );
+}
+
+/**
+ * Read the most recent audit log entries matching a filter, newest first.
+ * Rotated files are read after the current one until enough entries are found; malformed lines are skipped.
+ */
+export async function readAuditEntries(filter: AuditFilter): Promise<AuditEntry[]> {
+  const settings = getAuditSettings();
+  if (!settings) {
+    return [];
+  }
+
+  // Wait for pending writes so a call sees the entries of calls that finished before it
+  await writeQueue;
+
+  const entries: AuditEntry[] = [];
+  const files = [settings.path, ...Array.from({ length: settings.maxFiles }, (_, i) => `${settings.path}.${i + 1}`)];
+  for (const file of files) {
+    let raw: string;
+    try {
+      raw = await readFile(file, "utf8");
+    } catch (error) {
+      if (isMissingFile(error)) continue;
+      throw error;
+    }
+
+    const lines = raw.split("\n").filter((line) => line.trim().length > 0);
+    for (const line of lines.reverse()) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      const entry = auditEntrySchema.safeParse(parsed);
+      if (entry.success && matchesFilter(entry.data, filter)) {
+        entries.push(entry.data);
+        if (entries.length >= filter.limit) {
+          return entries;
+        }
+      }
+    }
+  }
+  return entries;
+}
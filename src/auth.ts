@@ -0,0 +1,151 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { z } from "zod";
+
+/**
+ * Token scopes. "read" allows every tool that does not change which models are loaded;
+ * "write" additionally allows the mutating tools.
+ */
+export type TokenScope = "read" | "write";
+
+/**
+ * Tools that change LM Studio state, or which models may be evicted, and require the "write" scope.
+ */
+export const MUTATING_TOOLS: ReadonlySet<string> = new Set([
+  "load_model",
+  "unload_model",
+  "load_preset",
+  "ensure_model_loaded",
+  "pin_model",
+  "unpin_model",
+  "download_model",
+]);
+
+/**
+ * A configured bearer token.
+ */
+export interface AuthToken {
+  token: string;
+  scope: TokenScope;
+  name: string;
+}
+
+// Schema for the tokens file
+const tokensFileSchema = z.array(
+  z.object({
+    token: z.string().min(1),
+    scope: z.enum(["read", "write"]),
+    name: z.string().min(1).optional(),
+  }),
+);
+
+/**
+ * Parse `token:scope` pairs from a comma-separated string.
+ */
+function parseTokenList(value: string): AuthToken[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry, index) => {
+      const separator = entry.lastIndexOf(":");
+      const token = separator === -1 ? entry : entry.slice(0, separator);
+      const scope = separator === -1 ? "" : entry.slice(separator + 1);
+      if (!token || (scope !== "read" && scope !== "write")) {
+        throw new Error(`Invalid MCP_AUTH_TOKENS entry ${index + 1} (expected 'token:read' or 'token:write')`);
+      }
+      return { token, scope, name: `env-${index + 1}` };
+    });
+}
+
+/**
+ * Read tokens from a JSON file containing `[{ "token": "...", "scope": "read" | "write", "name"?: "..." }]`.
+ */
+function readTokensFile(path: string): AuthToken[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read auth tokens file '${path}': ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+
+  const result = tokensFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid auth tokens file '${path}' at ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  }
+
+  return result.data.map((entry, index) => ({
+    token: entry.token,
+    scope: entry.scope,
+    name: entry.name ?? `file-${index + 1}`,
+  }));
+}
+
+/**
+ * Load bearer tokens from MCP_AUTH_TOKENS and MCP_AUTH_TOKENS_FILE.
+ * Returns an empty list when neither is set, which leaves authentication disabled.
+ */
+export function loadAuthTokens(env: NodeJS.ProcessEnv = process.env): AuthToken[] {
+  const tokens: AuthToken[] = [];
+  if (env.MCP_AUTH_TOKENS) {
+    tokens.push(...parseTokenList(env.MCP_AUTH_TOKENS));
+  }
+  if (env.MCP_AUTH_TOKENS_FILE) {
+    tokens.push(...readTokensFile(env.MCP_AUTH_TOKENS_FILE));
+  }
+  return tokens;
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Find the configured token matching a presented bearer token.
+ * Compares digests in constant time so the check does not leak how much of a token matched.
+ */
+export function authenticate(tokens: AuthToken[], presented: string): AuthToken | undefined {
+  const presentedDigest = digest(presented);
+  let match: AuthToken | undefined;
+  for (const candidate of tokens) {
+    if (timingSafeEqual(digest(candidate.token), presentedDigest)) {
+      match = candidate;
+    }
+  }
+  return match;
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header.
+ */
+export function parseBearerToken(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match?.[1];
+}
+
+/**
+ * Build the auth info handed to the MCP transport for an authenticated token.
+ */
+export function toAuthInfo(token: AuthToken): AuthInfo {
+  return {
+    token: token.token,
+    clientId: token.name,
+    scopes: token.scope === "write" ? ["read", "write"] : ["read"],
+  };
+}
+
+/**
+ * Check whether a caller may invoke a tool.
+ * Calls without auth info (stdio, or HTTP with auth disabled) are always allowed.
+ */
+export function isToolAllowed(toolName: string, authInfo: AuthInfo | undefined): boolean {
+  if (!authInfo) {
+    return true;
+  }
+  const required: TokenScope = MUTATING_TOOLS.has(toolName) ? "write" : "read";
+  return authInfo.scopes.includes(required);
+}
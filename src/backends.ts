@@ -0,0 +1,167 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { getServerConfig } from "./config.js";
+import { BackendNotFoundError } from "./types.js";
+
+/**
+ * A named LM Studio server the MCP server can talk to.
+ */
+export interface BackendConfig {
+  name: string;
+  baseUrl: string;
+}
+
+// Name of the backend built from LMSTUDIO_BASE_URL / LMSTUDIO_HOST / LMSTUDIO_PORT
+export const DEFAULT_BACKEND = "default";
+
+// Optional `backend` input shared by every tool
+export const backendSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe("Name of the LM Studio backend to use (default: the first configured backend)");
+
+// Schema for the backends file
+const backendsFileSchema = z
+  .array(
+    z.object({
+      name: z.string().min(1),
+      baseUrl: z.string().min(1),
+    }),
+  )
+  .min(1);
+
+/**
+ * LM Studio URL set by LMSTUDIO_BASE_URL, or built from LMSTUDIO_HOST / LMSTUDIO_PORT, if any of them is set.
+ */
+function envBaseUrl(): string | undefined {
+  const { LMSTUDIO_BASE_URL, LMSTUDIO_HOST, LMSTUDIO_PORT } = process.env;
+  const fromHostPort =
+    LMSTUDIO_HOST || LMSTUDIO_PORT ? `ws://${LMSTUDIO_HOST || "127.0.0.1"}:${LMSTUDIO_PORT || "1234"}` : undefined;
+  return LMSTUDIO_BASE_URL || fromHostPort;
+}
+
+/**
+ * Configuration for the single default LM Studio connection.
+ * Lazily evaluated from environment variables, which override the config file's baseUrl.
+ */
+function getConfig(): { baseUrl: string } {
+  return {
+    baseUrl: envBaseUrl() || getServerConfig().baseUrl || "ws://127.0.0.1:1234",
+  };
+}
+
+/**
+ * Parse `name=url` pairs from a comma-separated string.
+ */
+function parseBackendList(value: string): BackendConfig[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry, index) => {
+      const separator = entry.indexOf("=");
+      const name = entry.slice(0, separator).trim();
+      const baseUrl = entry.slice(separator + 1).trim();
+      if (separator === -1 || !name || !baseUrl) {
+        throw new Error(`Invalid LMSTUDIO_BACKENDS entry ${index + 1} (expected 'name=ws://host:port')`);
+      }
+      return { name, baseUrl };
+    });
+}
+
+/**
+ * Read backends from a JSON file containing `[{ "name": "...", "baseUrl": "ws://..." }]`.
+ */
+function readBackendsFile(path: string): BackendConfig[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read backends file '${path}': ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+
+  const result = backendsFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid backends file '${path}' at ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+// Backends resolved by loadBackends at startup
+let activeBackends: BackendConfig[] | undefined;
+
+/**
+ * Resolve the configured backends, default first, and check them for invalid entries and duplicate names.
+ * Backends come from LMSTUDIO_BACKENDS_FILE, LMSTUDIO_BACKENDS or the config file's backends; without any,
+ * a single "default" backend is built from LMSTUDIO_BASE_URL / LMSTUDIO_HOST / LMSTUDIO_PORT or the config file's baseUrl.
+ */
+function resolveBackends(): BackendConfig[] {
+  let backends: BackendConfig[];
+  if (process.env.LMSTUDIO_BACKENDS_FILE) {
+    backends = readBackendsFile(process.env.LMSTUDIO_BACKENDS_FILE);
+  } else if (process.env.LMSTUDIO_BACKENDS) {
+    backends = parseBackendList(process.env.LMSTUDIO_BACKENDS);
+  } else if (getServerConfig().backends) {
+    // Env vars override the config file, so they replace the URL of its default backend
+    const [first, ...rest] = getServerConfig().backends ?? [];
+    const override = envBaseUrl();
+    backends = [override ? { ...first, baseUrl: override } : first, ...rest];
+  } else {
+    return [{ name: DEFAULT_BACKEND, baseUrl: getConfig().baseUrl }];
+  }
+
+  const names = new Set<string>();
+  for (const backend of backends) {
+    if (names.has(backend.name)) {
+      throw new Error(`Duplicate backend name '${backend.name}'`);
+    }
+    names.add(backend.name);
+  }
+  return backends;
+}
+
+/**
+ * Resolve the backends once from the environment and the loaded config file, and keep them for every later call.
+ * Called at startup after loadConfig so an invalid backend list fails there instead of on the first tool call.
+ */
+export function loadBackends(): BackendConfig[] {
+  activeBackends = resolveBackends();
+  return activeBackends;
+}
+
+/**
+ * Replace the backends in effect, or clear them so they are resolved again on every call.
+ * Useful for testing.
+ */
+export function setBackends(backends?: BackendConfig[]): void {
+  activeBackends = backends;
+}
+
+/**
+ * List the configured backends, default first.
+ * Returns the backends loaded at startup; before loadBackends runs, they are resolved from the environment
+ * and config file on every call.
+ */
+export function listBackends(): BackendConfig[] {
+  return activeBackends ?? resolveBackends();
+}
+
+/**
+ * Resolve a backend by name, falling back to the default backend when no name is given.
+ */
+export function getBackend(name?: string): BackendConfig {
+  const backends = listBackends();
+  if (name === undefined) {
+    return backends[0];
+  }
+
+  const backend = backends.find((candidate) => candidate.name === name);
+  if (!backend) {
+    throw new BackendNotFoundError(name);
+  }
+  return backend;
+}
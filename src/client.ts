@@ -1,52 +1,180 @@
 import { LMStudioClient, type LoggerInterface } from "@lmstudio/sdk";
-import { withTimeout, DEFAULT_TIMEOUT } from "./types.js";
+import { getBackend } from "./backends.js";
+import { getTimeout } from "./config.js";
+import { logger } from "./logger.js";
+import { withTimeout, mapErrorCode, ErrorCode } from "./types.js";
+
+// Route SDK logs through the leveled logger so MCP stdout remains protocol-safe.
+const sdkLogger: LoggerInterface = logger;
+
+/**
+ * Connection state of a backend.
+ * - connecting: a client was created and has not completed a call yet
+ * - connected: the last call reached LM Studio
+ * - degraded: a call failed to reach LM Studio and is being retried
+ * - disconnected: no client, or the last call failed to reach LM Studio
+ */
+export type ConnectionState = "connecting" | "connected" | "degraded" | "disconnected";
 
 /**
- * Configuration for LM Studio connection.
- * Lazily evaluated from environment variables.
+ * A recorded change of connection state.
  */
-function getConfig(): { baseUrl: string } {
-  return {
-    baseUrl:
-      process.env.LMSTUDIO_BASE_URL ||
-      `ws://${process.env.LMSTUDIO_HOST || "127.0.0.1"}:${process.env.LMSTUDIO_PORT || "1234"}`,
-  };
+export interface ConnectionTransition {
+  state: ConnectionState;
+  at: string;
+  error?: string;
 }
 
-// Route SDK logs to stderr so MCP stdout remains protocol-safe.
-const sdkLogger: LoggerInterface = {
-  info: (...messages) => console.error(...messages),
-  warn: (...messages) => console.error(...messages),
-  error: (...messages) => console.error(...messages),
-  debug: () => {},
-};
+/**
+ * Connection status of a backend, including its recent state history.
+ */
+export interface ConnectionStatus {
+  state: ConnectionState;
+  lastConnectedAt?: string;
+  lastError?: string;
+  reconnectAttempts: number;
+  history: ConnectionTransition[];
+}
+
+// Number of state transitions kept per backend
+export const CONNECTION_HISTORY_LIMIT = 20;
+
+// Retries after a connection failure for idempotent calls
+export const MAX_RECONNECT_ATTEMPTS = 3;
+
+// Backoff bounds in milliseconds for reconnect attempts
+export const RECONNECT_BASE_DELAY_MS = 250;
+export const RECONNECT_MAX_DELAY_MS = 5000;
 
-// Singleton instance of the client
-let globalClient: LMStudioClient | null = null;
+// One client instance per backend, keyed by backend name
+const clients = new Map<string, LMStudioClient>();
+
+// Connection status per backend, keyed by backend name
+const connections = new Map<string, ConnectionStatus>();
+
+function getStatus(backend: string): ConnectionStatus {
+  let status = connections.get(backend);
+  if (!status) {
+    status = { state: "disconnected", reconnectAttempts: 0, history: [] };
+    connections.set(backend, status);
+  }
+  return status;
+}
 
 /**
- * Get or create an LM Studio client instance.
- * Maintains a singleton pattern to avoid multiple connections.
- * Configuration is read from environment at call time (not module load).
+ * Record a state change for a backend. Repeated states are not recorded twice.
  */
-export function getClient(): LMStudioClient {
-  if (!globalClient) {
-    const config = getConfig();
-    globalClient = new LMStudioClient({
+function transition(backend: string, state: ConnectionState, error?: string): void {
+  const status = getStatus(backend);
+  if (error !== undefined) {
+    status.lastError = error;
+  }
+  if (state === "connected") {
+    status.lastConnectedAt = new Date().toISOString();
+  }
+  if (status.state === state && status.history.length > 0) {
+    return;
+  }
+
+  status.state = state;
+  const entry: ConnectionTransition = { state, at: new Date().toISOString() };
+  if (error !== undefined) {
+    entry.error = error;
+  }
+  status.history.push(entry);
+  if (status.history.length > CONNECTION_HISTORY_LIMIT) {
+    status.history.shift();
+  }
+}
+
+/**
+ * Get a snapshot of a backend's connection status (the default backend when none is named).
+ */
+export function getConnectionStatus(backend?: string): ConnectionStatus {
+  const status = getStatus(getBackend(backend).name);
+  return { ...status, history: status.history.map((entry) => ({ ...entry })) };
+}
+
+/**
+ * Get or create the LM Studio client for a backend (the default backend when none is named).
+ * Maintains one client per backend to avoid multiple connections.
+ * Throws BackendNotFoundError for unknown backend names.
+ */
+export function getClient(backend?: string): LMStudioClient {
+  const config = getBackend(backend);
+  let client = clients.get(config.name);
+  if (!client) {
+    client = new LMStudioClient({
       baseUrl: config.baseUrl,
       logger: sdkLogger,
     });
+    clients.set(config.name, client);
+    if (getStatus(config.name).state === "disconnected") {
+      transition(config.name, "connecting");
+    }
   }
 
-  return globalClient;
+  return client;
 }
 
 /**
- * Reset the client instance. Useful for testing or reconnection after failure.
+ * Reset the client for one backend, or all clients and connection state when no backend is named.
+ * Useful for testing or reconnection after failure.
  */
-export function resetClient(): void {
-  if (globalClient) {
-    globalClient = null;
+export function resetClient(backend?: string): void {
+  if (backend === undefined) {
+    clients.clear();
+    connections.clear();
+  } else {
+    clients.delete(backend);
+  }
+}
+
+/**
+ * Delay before a reconnect attempt: exponential backoff capped at RECONNECT_MAX_DELAY_MS, with full jitter.
+ */
+export function computeBackoffDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an operation against a backend's client while tracking its connection state.
+ * A connection failure discards the client so the next call reconnects. Idempotent operations are
+ * retried on a fresh client with exponential backoff, up to MAX_RECONNECT_ATTEMPTS times.
+ */
+export async function withReconnect<T>(
+  operation: (client: LMStudioClient) => Promise<T>,
+  options: { backend?: string; idempotent?: boolean } = {},
+): Promise<T> {
+  const name = getBackend(options.backend).name;
+  const maxAttempts = options.idempotent ? MAX_RECONNECT_ATTEMPTS : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await operation(getClient(name));
+      transition(name, "connected");
+      return result;
+    } catch (error) {
+      if (mapErrorCode(error) !== ErrorCode.CONNECTION_FAILED) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      resetClient(name);
+      if (attempt >= maxAttempts) {
+        transition(name, "disconnected", message);
+        throw error;
+      }
+
+      transition(name, "degraded", message);
+      getStatus(name).reconnectAttempts++;
+      await sleep(computeBackoffDelay(attempt));
+    }
   }
 }
 
@@ -54,32 +182,44 @@ export function resetClient(): void {
  * Health check result.
  */
 export interface HealthCheckResult {
+  backend: string;
   connected: boolean;
   baseUrl: string;
   error?: string;
+  connection: ConnectionStatus;
 }
 
 /**
- * Test the connection to LM Studio.
- * Returns detailed health check result.
+ * Test the connection to an LM Studio backend (the default backend when none is named).
+ * Returns detailed health check result including the backend's connection status.
  * Resets the client on connection failure to allow reconnection on next attempt.
  */
-export async function testConnection(timeoutSeconds: number = DEFAULT_TIMEOUT): Promise<HealthCheckResult> {
-  const config = getConfig();
+export async function testConnection(
+  timeoutSeconds: number = getTimeout("healthCheck"),
+  backend?: string,
+): Promise<HealthCheckResult> {
+  const config = getBackend(backend);
   try {
-    const client = getClient();
+    const client = getClient(config.name);
     await withTimeout(client.llm.listLoaded(), timeoutSeconds, "Health check");
+    transition(config.name, "connected");
     return {
+      backend: config.name,
       connected: true,
       baseUrl: config.baseUrl,
+      connection: getConnectionStatus(config.name),
     };
   } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
     // Reset client on failure to allow fresh connection on retry
-    resetClient();
+    resetClient(config.name);
+    transition(config.name, "disconnected", message);
     return {
+      backend: config.name,
       connected: false,
       baseUrl: config.baseUrl,
-      error: error instanceof Error ? error.message : "Unknown error",
+      error: message,
+      connection: getConnectionStatus(config.name),
     };
   }
 }
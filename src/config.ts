@@ -0,0 +1,227 @@
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { extname, join } from "node:path";
+import yaml from "js-yaml";
+import { z } from "zod";
+import { loadOptionsShape } from "./load-options.js";
+
+// Names of every tool the server can register
+export const TOOL_NAMES = [
+  "health_check",
+  "list_backends",
+  "list_models",
+  "list_loaded_models",
+  "load_model",
+  "unload_model",
+  "get_model_info",
+  "chat_completion",
+  "structured_completion",
+  "tool_completion",
+  "embed_text",
+  "tokenize",
+  "count_tokens",
+  "list_presets",
+  "load_preset",
+  "ensure_model_loaded",
+  "plan_model_load",
+  "pin_model",
+  "unpin_model",
+  "search_models",
+  "download_model",
+  "get_audit_log",
+] as const;
+
+// Log levels, most severe first
+export const LOG_LEVELS = ["error", "warn", "info", "debug"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// Default per-operation timeouts in seconds
+export const DEFAULT_TIMEOUTS = {
+  // SDK calls without a more specific timeout
+  default: 30,
+  healthCheck: 30,
+  // Model loading can take a while for large models
+  loadModel: 120,
+  // Local models can be slow on long outputs
+  generation: 300,
+  // Large embedding batches take a while
+  embedding: 120,
+  // HTTP sessions without a request in flight for this long are closed
+  sessionIdle: 1800,
+};
+
+export type TimeoutName = keyof typeof DEFAULT_TIMEOUTS;
+
+// Schema for a named model load preset
+export const presetSchema = z
+  .object({
+    model: z.string().min(1),
+    type: z.enum(["llm", "embedding"]).optional(),
+    identifier: z.string().min(1).optional(),
+    ...loadOptionsShape,
+  })
+  .strict();
+
+export type LoadPreset = z.infer<typeof presetSchema>;
+
+// Schema for the config file
+export const configSchema = z
+  .object({
+    baseUrl: z.string().min(1).optional(),
+    backends: z
+      .array(
+        z
+          .object({
+            name: z.string().min(1),
+            baseUrl: z.string().min(1),
+          })
+          .strict(),
+      )
+      .min(1)
+      .optional(),
+    timeouts: z
+      .object({
+        default: z.number().positive().optional(),
+        healthCheck: z.number().positive().optional(),
+        loadModel: z.number().positive().optional(),
+        generation: z.number().positive().optional(),
+        embedding: z.number().positive().optional(),
+        sessionIdle: z.number().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    tools: z
+      .object({
+        enabled: z.array(z.enum(TOOL_NAMES)).optional(),
+        disabled: z.array(z.enum(TOOL_NAMES)).optional(),
+      })
+      .strict()
+      .optional(),
+    loadDefaults: z.object(loadOptionsShape).strict().optional(),
+    presets: z.record(z.string().min(1), presetSchema).optional(),
+    memoryBudget: z
+      .object({
+        maxBytes: z.number().int().positive(),
+        autoEvict: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    audit: z
+      .object({
+        enabled: z.boolean().optional(),
+        path: z.string().min(1).optional(),
+        maxBytes: z.number().int().positive().optional(),
+        maxFiles: z.number().int().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    imageDirectory: z.string().min(1).optional(),
+    logLevel: z.enum(LOG_LEVELS).optional(),
+  })
+  .strict();
+
+export type ServerConfig = z.infer<typeof configSchema>;
+
+// Config file names searched in the working directory, then in ~/.config/lm-studio-mcp
+const LOCAL_CONFIG_FILES = ["lmstudio-mcp.json", "lmstudio-mcp.yaml", "lmstudio-mcp.yml"];
+const USER_CONFIG_FILES = ["config.json", "config.yaml", "config.yml"];
+
+// Configuration in effect; empty until loadConfig is called
+let activeConfig: ServerConfig = {};
+
+/**
+ * Find a config file in the standard locations.
+ */
+export function findConfigFile(cwd: string = process.cwd(), home: string = homedir()): string | undefined {
+  const candidates = [
+    ...LOCAL_CONFIG_FILES.map((name) => join(cwd, name)),
+    ...USER_CONFIG_FILES.map((name) => join(home, ".config", "lm-studio-mcp", name)),
+  ];
+  return candidates.find((candidate) => existsSync(candidate));
+}
+
+/**
+ * Read and validate a JSON or YAML config file (YAML when the extension is .yaml or .yml).
+ */
+export function readConfigFile(path: string): ServerConfig {
+  let parsed: unknown;
+  try {
+    const raw = readFileSync(path, "utf8");
+    const extension = extname(path).toLowerCase();
+    parsed = extension === ".yaml" || extension === ".yml" ? yaml.load(raw) : JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Failed to read config file '${path}': ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+
+  const result = configSchema.safeParse(parsed ?? {});
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const key = [...issue.path, ...(issue.code === "unrecognized_keys" ? issue.keys.slice(0, 1) : [])];
+    throw new Error(`Invalid config file '${path}' at ${key.join(".") || "(root)"}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load the config file from an explicit path, or from the first standard location that exists.
+ * Without a file, every setting keeps its default. MCP_LOG_LEVEL overrides the file's log level.
+ */
+export function loadConfig(path?: string, env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const file = path ?? findConfigFile();
+  const config = file ? readConfigFile(file) : {};
+
+  if (env.MCP_LOG_LEVEL) {
+    const level = z.enum(LOG_LEVELS).safeParse(env.MCP_LOG_LEVEL);
+    if (!level.success) {
+      throw new Error(`Invalid MCP_LOG_LEVEL '${env.MCP_LOG_LEVEL}' (expected one of: ${LOG_LEVELS.join(", ")})`);
+    }
+    config.logLevel = level.data;
+  }
+
+  activeConfig = config;
+  return config;
+}
+
+/**
+ * Get the configuration in effect.
+ */
+export function getServerConfig(): ServerConfig {
+  return activeConfig;
+}
+
+/**
+ * Replace the configuration in effect.
+ * Useful for testing.
+ */
+export function setServerConfig(config: ServerConfig = {}): void {
+  activeConfig = config;
+}
+
+/**
+ * Get the timeout in seconds for an operation, from the config file or its default.
+ */
+export function getTimeout(name: TimeoutName): number {
+  return activeConfig.timeouts?.[name] ?? DEFAULT_TIMEOUTS[name];
+}
+
+/**
+ * Check whether a tool is enabled. Tools are enabled unless the config file's `tools.enabled`
+ * list leaves them out or its `tools.disabled` list names them.
+ */
+export function isToolEnabled(name: string): boolean {
+  const tools = activeConfig.tools;
+  if (tools?.enabled && !tools.enabled.some((enabled) => enabled === name)) {
+    return false;
+  }
+  return !tools?.disabled?.some((disabled) => disabled === name);
+}
+
+/**
+ * Get the log level in effect (default: info).
+ */
+export function getLogLevel(): LogLevel {
+  return activeConfig.logLevel ?? "info";
+}
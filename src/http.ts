@@ -0,0 +1,409 @@
+import { randomUUID } from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { AuthToken, authenticate, parseBearerToken, toAuthInfo } from "./auth.js";
+import { listBackends } from "./backends.js";
+import { getConnectionStatus, withReconnect, type ConnectionState } from "./client.js";
+import { logger } from "./logger.js";
+import { connectionState, loadedModelBytes, loadedModels, renderMetrics } from "./metrics.js";
+import { getTimeout } from "./config.js";
+import { ErrorCode, withTimeout } from "./types.js";
+
+// Path the MCP endpoint is served on
+export const MCP_PATH = "/mcp";
+
+// Path of the liveness endpoint
+export const HEALTH_PATH = "/health";
+
+// Largest accepted request body on the MCP endpoint (16 MiB, room for base64 images)
+export const DEFAULT_MAX_BODY_BYTES = 16 * 1024 * 1024;
+
+// Path of the Prometheus metrics endpoint
+export const METRICS_PATH = "/metrics";
+
+// Content type of the Prometheus text exposition format
+const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// Timeout in seconds for listing a backend's loaded models during a scrape
+const METRICS_BACKEND_TIMEOUT = 5;
+
+const CONNECTION_STATES: ConnectionState[] = ["connecting", "connected", "degraded", "disconnected"];
+
+/**
+ * Running HTTP server with its active MCP sessions.
+ */
+export interface HttpServerHandle {
+  server: Server;
+  sessions: Map<string, StreamableHTTPServerTransport>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Running standalone metrics server.
+ */
+export interface MetricsServerHandle {
+  server: Server;
+  close: () => Promise<void>;
+}
+
+/**
+ * Write a JSON response.
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Write a JSON-RPC error response for requests rejected before reaching a transport.
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  data?: unknown,
+  headers: Record<string, string> = {},
+): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message, data }, id: null }));
+}
+
+/**
+ * Error raised when a request body is larger than the configured limit.
+ */
+class PayloadTooLargeError extends Error {
+  constructor(public readonly maxBytes: number) {
+    super(`Request body exceeds ${maxBytes} bytes`);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+/**
+ * Read and parse a JSON request body of at most maxBytes.
+ * A body declared larger than the limit is rejected without reading it; a longer body is drained without
+ * being kept so the rejection can still be sent.
+ */
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  if (Number(req.headers["content-length"]) > maxBytes) {
+    throw new PayloadTooLargeError(maxBytes);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size <= maxBytes) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  if (size > maxBytes) {
+    throw new PayloadTooLargeError(maxBytes);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Tracks requests in flight per session and closes sessions that stay idle, so clients that disappear
+ * without a DELETE do not keep their MCP server (and its listeners and subscriptions) alive.
+ */
+interface IdleSessions {
+  // Count a request to a session as in flight until its response closes
+  track: (transport: StreamableHTTPServerTransport, res: ServerResponse) => void;
+  // Stop tracking a closed session
+  forget: (transport: StreamableHTTPServerTransport) => void;
+  clear: () => void;
+}
+
+/**
+ * Create an idle session tracker. The timeout is `timeouts.sessionIdle` from the config file, read when
+ * a session becomes idle.
+ */
+function createIdleSessions(): IdleSessions {
+  const tracked = new Map<StreamableHTTPServerTransport, { inFlight: number; timer?: NodeJS.Timeout }>();
+
+  return {
+    track: (transport, res) => {
+      let entry = tracked.get(transport);
+      if (!entry) {
+        entry = { inFlight: 0 };
+        tracked.set(transport, entry);
+      }
+      clearTimeout(entry.timer);
+      entry.inFlight++;
+
+      const session = entry;
+      res.once("close", () => {
+        session.inFlight--;
+        if (session.inFlight > 0 || !tracked.has(transport)) {
+          return;
+        }
+        const timeoutSeconds = getTimeout("sessionIdle");
+        session.timer = setTimeout(() => {
+          logger.info(`Closing MCP session ${transport.sessionId ?? "(uninitialized)"} after ${timeoutSeconds}s idle`);
+          transport.close().catch((error) => {
+            logger.warn("Failed to close idle MCP session:", error instanceof Error ? error.message : "Unknown error");
+          });
+        }, timeoutSeconds * 1000);
+        session.timer.unref();
+      });
+    },
+    forget: (transport) => {
+      clearTimeout(tracked.get(transport)?.timer);
+      tracked.delete(transport);
+    },
+    clear: () => {
+      for (const entry of tracked.values()) {
+        clearTimeout(entry.timer);
+      }
+      tracked.clear();
+    },
+  };
+}
+
+/**
+ * Refresh the backend gauges: loaded model count and bytes by model type, and connection state.
+ * Backends that cannot be listed are left out of the model gauges but still report their connection state.
+ */
+async function refreshBackendMetrics(): Promise<void> {
+  const backends = await Promise.all(
+    listBackends().map(async ({ name }) => {
+      const loaded = await withReconnect(
+        (client) =>
+          Promise.all([
+            withTimeout(client.llm.listLoaded(), METRICS_BACKEND_TIMEOUT, "List loaded models"),
+            withTimeout(client.embedding.listLoaded(), METRICS_BACKEND_TIMEOUT, "List loaded models"),
+          ]),
+        { backend: name },
+      ).catch((error) => {
+        logger.debug(
+          `Failed to list loaded models on backend '${name}' for metrics:`,
+          error instanceof Error ? error.message : "Unknown error",
+        );
+        return undefined;
+      });
+      return { name, loaded, state: getConnectionStatus(name).state };
+    }),
+  );
+
+  loadedModels.reset();
+  loadedModelBytes.reset();
+  connectionState.reset();
+  for (const { name, loaded, state } of backends) {
+    if (loaded) {
+      const [llms, embeddings] = loaded;
+      for (const [type, models] of [
+        ["llm", llms],
+        ["embedding", embeddings],
+      ] as const) {
+        loadedModels.set({ backend: name, type }, models.length);
+        loadedModelBytes.set(
+          { backend: name, type },
+          models.reduce((total, model) => total + model.sizeBytes, 0),
+        );
+      }
+    }
+    for (const candidate of CONNECTION_STATES) {
+      connectionState.set({ backend: name, state: candidate }, candidate === state ? 1 : 0);
+    }
+  }
+}
+
+/**
+ * Collect all metrics in the Prometheus text format, refreshing the backend gauges first.
+ */
+export async function collectMetrics(): Promise<string> {
+  await refreshBackendMetrics();
+  return renderMetrics();
+}
+
+/**
+ * Answer a scrape of the metrics endpoint.
+ */
+function handleMetricsRequest(res: ServerResponse): void {
+  collectMetrics().then(
+    (text) => {
+      res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE });
+      res.end(text);
+    },
+    (error) => {
+      logger.error("Error collecting metrics:", error instanceof Error ? error.message : "Unknown error");
+      sendJson(res, 500, { error: "Failed to collect metrics" });
+    },
+  );
+}
+
+/**
+ * Listen on a host and port, resolving once the server is bound.
+ */
+async function listen(server: Server, host: string, port: number): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Route a request on the MCP endpoint to its session transport, creating a new session on initialize.
+ */
+async function handleMcpRequest(
+  req: IncomingMessage & { auth?: AuthInfo },
+  res: ServerResponse,
+  sessions: Map<string, StreamableHTTPServerTransport>,
+  idleSessions: IdleSessions,
+  createServer: () => McpServer,
+  maxBodyBytes: number,
+): Promise<void> {
+  let body: unknown;
+  if (req.method === "POST") {
+    try {
+      body = await readJsonBody(req, maxBodyBytes);
+    } catch (error) {
+      if (error instanceof PayloadTooLargeError) {
+        sendJsonRpcError(res, 413, -32600, `Payload too large: ${error.message}`);
+        return;
+      }
+      sendJsonRpcError(res, 400, -32700, "Parse error: Invalid JSON");
+      return;
+    }
+  }
+
+  const sessionId = req.headers["mcp-session-id"];
+  if (typeof sessionId === "string") {
+    const transport = sessions.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    idleSessions.track(transport, res);
+    await transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (req.method !== "POST" || !isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+    return;
+  }
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      sessions.set(id, transport);
+    },
+  });
+  transport.onclose = () => {
+    idleSessions.forget(transport);
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+    }
+  };
+
+  const server = createServer();
+  await server.connect(transport);
+  idleSessions.track(transport, res);
+  await transport.handleRequest(req, res, body);
+}
+
+/**
+ * Start an HTTP server exposing the MCP Streamable HTTP transport on /mcp, a liveness check on /health and
+ * Prometheus metrics on /metrics.
+ * Each client session gets its own MCP server instance from createServer.
+ * When tokens are configured, /mcp and /metrics require an `Authorization: Bearer <token>` header (any scope).
+ * Sessions with no request in flight for `timeouts.sessionIdle` seconds are closed, and request bodies larger
+ * than maxBodyBytes are rejected with 413.
+ */
+export async function startHttpServer(
+  options: { host: string; port: number; tokens?: AuthToken[]; maxBodyBytes?: number },
+  createServer: () => McpServer,
+): Promise<HttpServerHandle> {
+  const tokens = options.tokens ?? [];
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+  const idleSessions = createIdleSessions();
+
+  const server = createHttpServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === HEALTH_PATH && req.method === "GET") {
+      sendJson(res, 200, { status: "ok", sessions: sessions.size });
+      return;
+    }
+
+    const isMetrics = path === METRICS_PATH && req.method === "GET";
+    if (path !== MCP_PATH && !isMetrics) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    if (tokens.length > 0) {
+      const presented = parseBearerToken(req.headers.authorization);
+      const token = presented ? authenticate(tokens, presented) : undefined;
+      if (!token) {
+        sendJsonRpcError(
+          res,
+          401,
+          -32001,
+          "Unauthorized: missing or invalid bearer token",
+          { code: ErrorCode.UNAUTHORIZED },
+          { "WWW-Authenticate": 'Bearer realm="mcp"' },
+        );
+        return;
+      }
+      (req as IncomingMessage & { auth?: AuthInfo }).auth = toAuthInfo(token);
+    }
+
+    if (isMetrics) {
+      handleMetricsRequest(res);
+      return;
+    }
+
+    handleMcpRequest(req, res, sessions, idleSessions, createServer, maxBodyBytes).catch((error) => {
+      logger.error("Error handling MCP request:", error instanceof Error ? error.message : "Unknown error");
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    });
+  });
+
+  await listen(server, options.host, options.port);
+
+  return {
+    server,
+    sessions,
+    close: async () => {
+      await Promise.all([...sessions.values()].map((transport) => transport.close()));
+      sessions.clear();
+      idleSessions.clear();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Start a standalone HTTP server that only serves Prometheus metrics on /metrics, for the stdio transport
+ * or to keep metrics off the MCP port. It has no authentication, so bind it to a trusted interface.
+ */
+export async function startMetricsServer(options: { host: string; port: number }): Promise<MetricsServerHandle> {
+  const server = createHttpServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (path === METRICS_PATH && req.method === "GET") {
+      handleMetricsRequest(res);
+      return;
+    }
+    sendJson(res, 404, { error: "Not found" });
+  });
+
+  await listen(server, options.host, options.port);
+
+  return {
+    server,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
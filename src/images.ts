@@ -0,0 +1,142 @@
+import { constants } from "node:fs";
+import { access, realpath } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, isAbsolute, relative, resolve, sep } from "node:path";
+import type { FileHandle, LMStudioClient } from "@lmstudio/sdk";
+import { z } from "zod";
+import { getServerConfig } from "./config.js";
+import { withTimeout } from "./types.js";
+
+// Schema for an image attached to a chat message
+export const imageInputSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("base64"),
+    data: z.string().min(1).describe("Base64-encoded image, optionally as a data URL"),
+    mimeType: z.string().min(1).optional().describe("Image MIME type, e.g. 'image/png' (default: 'image/png')"),
+  }),
+  z.object({
+    type: z.literal("image"),
+    data: z.string().min(1).describe("Base64-encoded image"),
+    mimeType: z.string().min(1).describe("Image MIME type"),
+  }),
+  z.object({
+    type: z.literal("file"),
+    path: z.string().min(1).describe("Path of an image file on the server's machine"),
+  }),
+]);
+
+export type ImageInput = z.infer<typeof imageInputSchema>;
+
+/**
+ * Split a data URL into its MIME type and base64 data; other strings are returned as data.
+ */
+function parseBase64(data: string, mimeType?: string): { data: string; mimeType: string } {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(data);
+  if (match) {
+    return { data: match[2], mimeType: match[1] };
+  }
+  return { data, mimeType: mimeType ?? "image/png" };
+}
+
+// Whether file inputs may name any readable file when no image directory is configured.
+// Only the stdio transport allows it, since its client runs on this machine.
+let anyImageFileAllowed = false;
+
+/**
+ * Allow or forbid file inputs outside a configured image directory.
+ */
+export function allowAnyImageFile(allowed: boolean): void {
+  anyImageFileAllowed = allowed;
+}
+
+/**
+ * Error raised for an image file input that is not allowed or cannot be read.
+ */
+export class ImageFileError extends Error {
+  constructor(
+    message: string,
+    public readonly detail: string,
+  ) {
+    super(message);
+    this.name = "ImageFileError";
+  }
+}
+
+function isInside(directory: string, path: string): boolean {
+  const fromDirectory = relative(directory, path);
+  return fromDirectory !== ".." && !fromDirectory.startsWith(`..${sep}`) && !isAbsolute(fromDirectory);
+}
+
+/**
+ * Resolve an image file input to its real path.
+ * With `imageDirectory` in the config file, relative paths resolve from that directory and the file must be
+ * inside it, after following symlinks. Without it, file inputs are only allowed on the stdio transport.
+ */
+export async function resolveImageFile(path: string): Promise<string> {
+  const configured = getServerConfig().imageDirectory;
+  if (configured === undefined && !anyImageFileAllowed) {
+    throw new ImageFileError(
+      "Image file inputs are not allowed on this transport",
+      "Send images as base64, or set imageDirectory in the config file to allow files from that directory",
+    );
+  }
+
+  const directory = configured && resolve(configured.replace(/^~(?=$|[\\/])/, homedir()));
+  const outside = new ImageFileError(
+    `Image file '${path}' is outside the image directory`,
+    `Image files must be inside '${directory}'`,
+  );
+  const resolved = resolve(directory || ".", path);
+  if (directory && !isInside(directory, resolved)) {
+    throw outside;
+  }
+
+  let real: string;
+  try {
+    real = await realpath(resolved);
+    await access(real, constants.R_OK);
+  } catch {
+    throw new ImageFileError(
+      `Image file '${path}' does not exist or cannot be read`,
+      "Image file paths are resolved on the machine running the MCP server",
+    );
+  }
+  if (directory && !isInside(await realpath(directory).catch(() => directory), real)) {
+    throw outside;
+  }
+  return real;
+}
+
+/**
+ * Find the first image file input that is not allowed or cannot be read.
+ */
+export async function findInvalidImageFile(images: ImageInput[]): Promise<ImageFileError | undefined> {
+  for (const image of images) {
+    if (image.type === "file") {
+      try {
+        await resolveImageFile(image.path);
+      } catch (error) {
+        if (error instanceof ImageFileError) {
+          return error;
+        }
+        throw error;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Upload an image to LM Studio with the SDK's file APIs.
+ * LM Studio detects the format from the file name, so base64 images are named after their MIME type.
+ */
+export async function prepareImage(client: LMStudioClient, image: ImageInput): Promise<FileHandle> {
+  if (image.type === "file") {
+    const path = await resolveImageFile(image.path);
+    return withTimeout(client.files.prepareImage(path), undefined, `Prepare image '${basename(path)}'`);
+  }
+
+  const { data, mimeType } = parseBase64(image.data, image.mimeType);
+  const extension = mimeType.split("/")[1]?.split("+")[0] ?? "png";
+  return withTimeout(client.files.prepareImageBase64(`image.${extension}`, data), undefined, "Prepare image");
+}
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+// KV-cache quantization types supported by the llama.cpp engine
+export const kvCacheQuantizationTypes = ["f32", "f16", "q8_0", "q4_0", "q4_1", "iq4_nl", "q5_0", "q5_1"] as const;
+
+// Load config fields that only apply to LLMs, not embedding models
+export const LLM_ONLY_CONFIG_KEYS = ["evalBatchSize", "flashAttention", "kvCacheQuantization", "seed"] as const;
+
+// Model load options shared by the load_model tool and the config file's load defaults
+export const loadOptionsShape = {
+  contextLength: z.number().int().min(1).optional().describe("Context window size in tokens"),
+  evalBatchSize: z.number().int().min(1).optional().describe("Number of tokens to process together in a batch"),
+  gpuOffload: z
+    .union([z.number().min(0).max(1), z.enum(["max", "off"])])
+    .optional()
+    .describe("Ratio of work to offload to the GPU, from 0 to 1, or 'max'/'off'"),
+  flashAttention: z.boolean().optional().describe("Enable flash attention"),
+  ropeFrequencyBase: z.number().positive().optional().describe("RoPE frequency base"),
+  ropeFrequencyScale: z.number().positive().optional().describe("RoPE frequency scale factor"),
+  kvCacheQuantization: z
+    .enum(kvCacheQuantizationTypes)
+    .optional()
+    .describe("Quantization type for both the K and V caches"),
+  keepModelInMemory: z.boolean().optional().describe("Keep the model in system memory even when offloaded to GPU"),
+  tryMmap: z.boolean().optional().describe("Try to memory-map the model file"),
+  seed: z.number().int().optional().describe("Seed for the random number generator"),
+  ttl: z.number().int().min(1).optional().describe("Seconds of inactivity after which LM Studio unloads the model"),
+  idleTtl: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Seconds without tool calls using the model after which this server unloads it"),
+};
+
+export type LoadOptions = z.infer<z.ZodObject<typeof loadOptionsShape>>;
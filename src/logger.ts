@@ -0,0 +1,26 @@
+import { getLogLevel, LOG_LEVELS, type LogLevel } from "./config.js";
+
+/**
+ * Check whether messages at a level pass the configured log level.
+ */
+function isEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(getLogLevel());
+}
+
+/**
+ * Leveled logger. Writes to stderr so MCP stdout remains protocol-safe.
+ */
+export const logger = {
+  error: (...messages: unknown[]) => {
+    if (isEnabled("error")) console.error(...messages);
+  },
+  warn: (...messages: unknown[]) => {
+    if (isEnabled("warn")) console.error(...messages);
+  },
+  info: (...messages: unknown[]) => {
+    if (isEnabled("info")) console.error(...messages);
+  },
+  debug: (...messages: unknown[]) => {
+    if (isEnabled("debug")) console.error(...messages);
+  },
+};
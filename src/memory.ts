@@ -0,0 +1,363 @@
+import type { LMStudioClient } from "@lmstudio/sdk";
+import { getBackend } from "./backends.js";
+import { withReconnect } from "./client.js";
+import { logger } from "./logger.js";
+import { notifyModelsChanged } from "./model-events.js";
+import { withTimeout } from "./types.js";
+import { z } from "zod";
+
+/**
+ * A loaded model instance considered for eviction.
+ */
+export const evictionCandidateSchema = z.object({
+  type: z.enum(["llm", "embedding"]),
+  identifier: z.string(),
+  modelKey: z.string(),
+  sizeBytes: z.number(),
+  lastUsedAt: z.string().optional(),
+});
+
+export type EvictionCandidate = z.infer<typeof evictionCandidateSchema>;
+
+/**
+ * What loading a model would do to a backend's memory budget.
+ */
+export const evictionPlanSchema = z.object({
+  modelKey: z.string(),
+  sizeBytes: z.number(),
+  budgetBytes: z.number(),
+  loadedBytes: z.number(),
+  fits: z.boolean(),
+  // Whether unloading the instances in `evict` frees enough memory
+  possible: z.boolean(),
+  evict: z.array(evictionCandidateSchema),
+  freedBytes: z.number(),
+});
+
+export type EvictionPlan = z.infer<typeof evictionPlanSchema>;
+
+// Last use time (ms since epoch) per instance, keyed by backend name and then identifier
+const lastUsed = new Map<string, Map<string, number>>();
+
+// Pinned instance identifiers per backend name
+const pinned = new Map<string, Set<string>>();
+
+// Idle TTL of instances the server unloads when unused, keyed by backend name and then identifier
+const idleTtls = new Map<string, Map<string, { type: "llm" | "embedding"; seconds: number }>>();
+
+// Number of tool calls running against each instance, keyed by backend name and then identifier
+const activeUses = new Map<string, Map<string, number>>();
+
+// Longest delay setTimeout supports; later expirations are rescheduled when the timer fires
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Timer for the next idle expiration, if any
+let expiryTimer: NodeJS.Timeout | undefined;
+
+function backendName(backend?: string): string {
+  return getBackend(backend).name;
+}
+
+/**
+ * Record that a tool call used a model instance.
+ */
+export function recordModelUse(identifier: string, backend?: string): void {
+  const name = backendName(backend);
+  let uses = lastUsed.get(name);
+  if (!uses) {
+    uses = new Map();
+    lastUsed.set(name, uses);
+  }
+  uses.set(identifier, Date.now());
+  if (idleTtls.get(name)?.has(identifier)) {
+    scheduleExpirations();
+  }
+}
+
+/**
+ * Run a tool call against a model instance. The instance does not expire while the call runs,
+ * and an instance with an idle TTL starts its countdown again when the call ends, even if it failed.
+ */
+export async function withModelInUse<T>(
+  identifier: string,
+  backend: string | undefined,
+  operation: () => Promise<T>,
+): Promise<T> {
+  const name = backendName(backend);
+  let uses = activeUses.get(name);
+  if (!uses) {
+    uses = new Map();
+    activeUses.set(name, uses);
+  }
+  uses.set(identifier, (uses.get(identifier) ?? 0) + 1);
+
+  try {
+    return await operation();
+  } finally {
+    const remaining = (uses.get(identifier) ?? 1) - 1;
+    if (remaining > 0) {
+      uses.set(identifier, remaining);
+    } else {
+      uses.delete(identifier);
+    }
+    if (idleTtls.get(name)?.has(identifier)) {
+      recordModelUse(identifier, name);
+    }
+  }
+}
+
+function isInUse(backend: string, identifier: string): boolean {
+  return activeUses.get(backend)?.has(identifier) ?? false;
+}
+
+/**
+ * Forget the last use time of an instance that was unloaded.
+ */
+export function forgetModelUse(identifier: string, backend?: string): void {
+  const name = backendName(backend);
+  lastUsed.get(name)?.delete(identifier);
+  if (idleTtls.get(name)?.delete(identifier)) {
+    scheduleExpirations();
+  }
+}
+
+/**
+ * Get when a model instance was last used through this server, if ever.
+ */
+export function getLastUsedAt(identifier: string, backend?: string): string | undefined {
+  const time = lastUsed.get(backendName(backend))?.get(identifier);
+  return time === undefined ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Pin an instance so it is never evicted. Pins are kept by identifier, so they survive reloads.
+ */
+export function pinModel(identifier: string, backend?: string): void {
+  const name = backendName(backend);
+  let identifiers = pinned.get(name);
+  if (!identifiers) {
+    identifiers = new Set();
+    pinned.set(name, identifiers);
+  }
+  identifiers.add(identifier);
+}
+
+/**
+ * Unpin an instance. Returns whether it was pinned.
+ */
+export function unpinModel(identifier: string, backend?: string): boolean {
+  return pinned.get(backendName(backend))?.delete(identifier) ?? false;
+}
+
+/**
+ * Check whether an instance is pinned.
+ */
+export function isPinned(identifier: string, backend?: string): boolean {
+  return pinned.get(backendName(backend))?.has(identifier) ?? false;
+}
+
+/**
+ * Clear all usage times and pins.
+ * Useful for testing.
+ */
+export function resetModelUsage(): void {
+  lastUsed.clear();
+  activeUses.clear();
+  pinned.clear();
+  idleTtls.clear();
+  scheduleExpirations();
+}
+
+/**
+ * Have the server unload an instance once no tool call has used it for `seconds`.
+ * Counts as a use, so the countdown starts now.
+ */
+export function setIdleTtl(identifier: string, type: "llm" | "embedding", seconds: number, backend?: string): void {
+  const name = backendName(backend);
+  let ttls = idleTtls.get(name);
+  if (!ttls) {
+    ttls = new Map();
+    idleTtls.set(name, ttls);
+  }
+  ttls.set(identifier, { type, seconds });
+  recordModelUse(identifier, name);
+}
+
+/**
+ * Stop unloading an instance when idle, e.g. because a new instance without an idle TTL took its identifier.
+ */
+export function clearIdleTtl(identifier: string, backend?: string): void {
+  if (idleTtls.get(backendName(backend))?.delete(identifier)) {
+    scheduleExpirations();
+  }
+}
+
+function expiryTime(backend: string, identifier: string, seconds: number): number {
+  return (lastUsed.get(backend)?.get(identifier) ?? Date.now()) + seconds * 1000;
+}
+
+/**
+ * Get when the server will unload an idle instance, if it has an idle TTL.
+ */
+export function getExpiresAt(identifier: string, backend?: string): string | undefined {
+  const name = backendName(backend);
+  const ttl = idleTtls.get(name)?.get(identifier);
+  return ttl === undefined ? undefined : new Date(expiryTime(name, identifier, ttl.seconds)).toISOString();
+}
+
+/**
+ * Arm the timer for the earliest idle expiration, replacing any earlier timer.
+ * Instances in use are skipped; they are scheduled again when their last call ends.
+ * The timer does not keep the process alive.
+ */
+function scheduleExpirations(): void {
+  clearTimeout(expiryTimer);
+  expiryTimer = undefined;
+
+  let next = Infinity;
+  for (const [backend, ttls] of idleTtls) {
+    for (const [identifier, ttl] of ttls) {
+      if (isInUse(backend, identifier)) {
+        continue;
+      }
+      next = Math.min(next, expiryTime(backend, identifier, ttl.seconds));
+    }
+  }
+  if (next === Infinity) {
+    return;
+  }
+
+  const delay = Math.min(Math.max(0, next - Date.now()), MAX_TIMER_DELAY_MS);
+  expiryTimer = setTimeout(() => void unloadExpired(), delay);
+  expiryTimer.unref();
+}
+
+/**
+ * Unload every instance whose idle TTL has run out and that no tool call is using, then schedule the next expiration.
+ * Failures are logged; the instance is not retried.
+ */
+async function unloadExpired(): Promise<void> {
+  expiryTimer = undefined;
+  const now = Date.now();
+  const expired: { backend: string; identifier: string; type: "llm" | "embedding" }[] = [];
+  for (const [backend, ttls] of idleTtls) {
+    for (const [identifier, ttl] of ttls) {
+      if (!isInUse(backend, identifier) && expiryTime(backend, identifier, ttl.seconds) <= now) {
+        expired.push({ backend, identifier, type: ttl.type });
+        ttls.delete(identifier);
+        lastUsed.get(backend)?.delete(identifier);
+      }
+    }
+  }
+
+  for (const { backend, identifier, type } of expired) {
+    try {
+      await withReconnect(
+        (client) => {
+          const namespace = type === "embedding" ? client.embedding : client.llm;
+          return withTimeout(namespace.unload(identifier), undefined, "Unload model");
+        },
+        { backend },
+      );
+      logger.info(`Unloaded idle model '${identifier}' on backend '${backend}'`);
+      notifyModelsChanged("loaded");
+    } catch (error) {
+      logger.warn(
+        `Failed to unload idle model '${identifier}' on backend '${backend}':`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  if (!expiryTimer) {
+    scheduleExpirations();
+  }
+}
+
+function toCandidate(
+  type: "llm" | "embedding",
+  model: { identifier: string; modelKey: string; sizeBytes: number },
+  backend?: string,
+): EvictionCandidate {
+  const candidate: EvictionCandidate = {
+    type,
+    identifier: model.identifier,
+    modelKey: model.modelKey,
+    sizeBytes: model.sizeBytes,
+  };
+  const lastUsedAt = getLastUsedAt(model.identifier, backend);
+  if (lastUsedAt) {
+    candidate.lastUsedAt = lastUsedAt;
+  }
+  return candidate;
+}
+
+/**
+ * Plan which instances to unload so a model fits in the memory budget.
+ * Unpinned instances are evicted least recently used first; instances never used through this server go first.
+ * Returns undefined when the model is not among the downloaded models, since its size is unknown.
+ */
+export async function planEviction(
+  client: LMStudioClient,
+  options: { model: string; type: "llm" | "embedding"; budgetBytes: number; backend?: string },
+): Promise<EvictionPlan | undefined> {
+  const downloaded = await withTimeout(client.system.listDownloadedModels(), undefined, "List models");
+  const target = downloaded.find((model) => model.modelKey === options.model && model.type === options.type);
+  if (!target) {
+    return undefined;
+  }
+
+  const [llms, embeddings] = await Promise.all([
+    withTimeout(client.llm.listLoaded(), undefined, "List loaded models"),
+    withTimeout(client.embedding.listLoaded(), undefined, "List loaded models"),
+  ]);
+  const loaded = [
+    ...llms.map((model) => toCandidate("llm", model, options.backend)),
+    ...embeddings.map((model) => toCandidate("embedding", model, options.backend)),
+  ];
+
+  const loadedBytes = loaded.reduce((total, model) => total + model.sizeBytes, 0);
+  const excess = loadedBytes + target.sizeBytes - options.budgetBytes;
+  const plan: EvictionPlan = {
+    modelKey: target.modelKey,
+    sizeBytes: target.sizeBytes,
+    budgetBytes: options.budgetBytes,
+    loadedBytes,
+    fits: excess <= 0,
+    possible: true,
+    evict: [],
+    freedBytes: 0,
+  };
+  if (plan.fits) {
+    return plan;
+  }
+
+  const candidates = loaded
+    .filter((model) => !isPinned(model.identifier, options.backend))
+    .sort((a, b) => (a.lastUsedAt ?? "").localeCompare(b.lastUsedAt ?? ""));
+  for (const candidate of candidates) {
+    if (plan.freedBytes >= excess) {
+      break;
+    }
+    plan.evict.push(candidate);
+    plan.freedBytes += candidate.sizeBytes;
+  }
+  plan.possible = plan.freedBytes >= excess && target.sizeBytes <= options.budgetBytes;
+  return plan;
+}
+
+/**
+ * Unload the instances chosen by an eviction plan.
+ */
+export async function evictModels(
+  client: LMStudioClient,
+  candidates: EvictionCandidate[],
+  backend?: string,
+): Promise<void> {
+  for (const candidate of candidates) {
+    const namespace = candidate.type === "embedding" ? client.embedding : client.llm;
+    await withTimeout(namespace.unload(candidate.identifier), undefined, "Unload model");
+    forgetModelUse(candidate.identifier, backend);
+    notifyModelsChanged("loaded");
+  }
+}
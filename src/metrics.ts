@@ -0,0 +1,199 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Label values of one metric series.
+ */
+type Labels = Record<string, string>;
+
+// Upper bounds in seconds of the tool call duration histogram buckets
+export const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+// Label value for timeouts raised outside a tool call (e.g. while collecting metrics)
+const NO_TOOL = "none";
+
+/**
+ * Escape a label value for the Prometheus text format.
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * A counter or gauge: one value per label set.
+ */
+class Metric {
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge",
+  ) {}
+
+  private entry(labels: Labels) {
+    const key = JSON.stringify(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: 0 };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.entry(labels).value += amount;
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels).value = value;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+    );
+  }
+}
+
+/**
+ * A histogram with cumulative buckets, a sum and a count per label set.
+ */
+class Histogram {
+  readonly type = "histogram";
+  private readonly series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly bounds: number[],
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = JSON.stringify(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) entry.buckets[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+// Tool call metrics, recorded by the MCP layer
+export const toolCalls = new Metric("lmstudio_mcp_tool_calls_total", "Tool calls, by tool", "counter");
+export const toolCallDuration = new Histogram(
+  "lmstudio_mcp_tool_call_duration_seconds",
+  "Tool call latency in seconds, by tool",
+  DURATION_BUCKETS,
+);
+export const toolResults = new Metric(
+  "lmstudio_mcp_tool_results_total",
+  "Tool call results, by tool and error code (OK for successful calls)",
+  "counter",
+);
+export const timeouts = new Metric(
+  "lmstudio_mcp_timeouts_total",
+  "LM Studio operations that exceeded their timeout, by the tool that ran them",
+  "counter",
+);
+
+// Backend gauges, refreshed on every scrape
+export const loadedModels = new Metric(
+  "lmstudio_mcp_loaded_models",
+  "Models loaded on a backend, by model type",
+  "gauge",
+);
+export const loadedModelBytes = new Metric(
+  "lmstudio_mcp_loaded_model_bytes",
+  "Size in bytes of the models loaded on a backend, by model type",
+  "gauge",
+);
+export const connectionState = new Metric(
+  "lmstudio_mcp_connection_state",
+  "Connection state of a backend (1 for the current state, 0 otherwise)",
+  "gauge",
+);
+
+const metrics = [toolCalls, toolCallDuration, toolResults, timeouts, loadedModels, loadedModelBytes, connectionState];
+
+// Name of the tool whose handler is running, so timeouts can be attributed to it
+const currentTool = new AsyncLocalStorage<string>();
+
+/**
+ * Run a tool handler with its name attached to timeouts raised while it runs.
+ */
+export function runWithToolMetrics<T>(tool: string, operation: () => Promise<T>): Promise<T> {
+  return currentTool.run(tool, operation);
+}
+
+/**
+ * Record a finished tool call: its latency and its error code, or OK for a successful call.
+ */
+export function recordToolCall(tool: string, errorCode: string | undefined, durationSeconds: number): void {
+  toolCalls.inc({ tool });
+  toolCallDuration.observe({ tool }, durationSeconds);
+  toolResults.inc({ tool, code: errorCode ?? "OK" });
+}
+
+/**
+ * Record an operation that exceeded its timeout, attributed to the tool running it.
+ */
+export function recordTimeout(): void {
+  timeouts.inc({ tool: currentTool.getStore() ?? NO_TOOL });
+}
+
+/**
+ * Render every metric in the Prometheus text exposition format.
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render());
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Clear all recorded metrics. Useful for testing.
+ */
+export function resetMetrics(): void {
+  for (const metric of metrics) {
+    metric.reset();
+  }
+}
@@ -0,0 +1,31 @@
+import { EventEmitter } from "node:events";
+
+/**
+ * What changed about the models on a backend.
+ * - loaded: a model was loaded or unloaded
+ * - downloaded: a model was downloaded
+ */
+export type ModelChange = "loaded" | "downloaded";
+
+// Emits "change" with a ModelChange whenever models are loaded, unloaded or downloaded
+const events = new EventEmitter();
+
+// Every MCP session may listen for changes, so do not warn about many listeners
+events.setMaxListeners(0);
+
+/**
+ * Announce that models were loaded, unloaded or downloaded.
+ */
+export function notifyModelsChanged(change: ModelChange): void {
+  events.emit("change", change);
+}
+
+/**
+ * Listen for model changes. Returns a function that stops listening.
+ */
+export function onModelsChanged(listener: (change: ModelChange) => void): () => void {
+  events.on("change", listener);
+  return () => {
+    events.off("change", listener);
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Transport the MCP server listens on.
+ */
+export type TransportType = "stdio" | "http";
+
+/**
+ * Server startup options.
+ */
+export interface ServerOptions {
+  transport: TransportType;
+  configPath?: string;
+  metricsPort?: number;
+  http: {
+    host: string;
+    port: number;
+  };
+}
+
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Read the value of a `--name value` or `--name=value` CLI flag.
+ */
+function readFlag(argv: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith("--")) {
+        throw new Error(`Missing value for --${name}`);
+      }
+      return value;
+    }
+    if (argv[i].startsWith(prefix)) {
+      return argv[i].slice(prefix.length);
+    }
+  }
+  return undefined;
+}
+
+function parseTransport(value: string): TransportType {
+  if (value !== "stdio" && value !== "http") {
+    throw new Error(`Invalid transport '${value}' (expected 'stdio' or 'http')`);
+  }
+  return value;
+}
+
+function parsePort(value: string, kind = "HTTP"): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid ${kind} port '${value}'`);
+  }
+  return port;
+}
+
+/**
+ * Resolve server options from CLI arguments and environment variables.
+ * CLI flags take precedence over environment variables; stdio is the default transport.
+ * The config file path comes from --config or MCP_CONFIG; when neither is set, standard locations are searched.
+ * A metrics port from --metrics-port or MCP_METRICS_PORT starts a standalone metrics server on the HTTP host.
+ */
+export function parseServerOptions(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): ServerOptions {
+  const transport = readFlag(argv, "transport") ?? (argv.includes("--http") ? "http" : env.MCP_TRANSPORT);
+  const host = readFlag(argv, "host") ?? env.MCP_HTTP_HOST;
+  const port = readFlag(argv, "port") ?? env.MCP_HTTP_PORT;
+  const configPath = readFlag(argv, "config") ?? env.MCP_CONFIG;
+  const metricsPort = readFlag(argv, "metrics-port") ?? env.MCP_METRICS_PORT;
+
+  const options: ServerOptions = {
+    transport: transport ? parseTransport(transport) : "stdio",
+    http: {
+      host: host || DEFAULT_HTTP_HOST,
+      port: port ? parsePort(port) : DEFAULT_HTTP_PORT,
+    },
+  };
+  if (configPath) {
+    options.configPath = configPath;
+  }
+  if (metricsPort) {
+    options.metricsPort = parsePort(metricsPort, "metrics");
+  }
+  return options;
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+/**
+ * Named output schemas that generation tools can reference instead of sending a full JSON Schema.
+ */
+const outputSchemas = new Map<string, z.ZodType>([
+  ["string_list", z.object({ items: z.array(z.string()) })],
+  [
+    "classification",
+    z.object({
+      label: z.string(),
+      confidence: z.number().min(0).max(1),
+    }),
+  ],
+  [
+    "key_values",
+    z.object({
+      entries: z.array(z.object({ key: z.string(), value: z.string() })),
+    }),
+  ],
+]);
+
+/**
+ * Register (or replace) a named output schema.
+ */
+export function registerOutputSchema(name: string, schema: z.ZodType): void {
+  outputSchemas.set(name, schema);
+}
+
+/**
+ * Look up a named output schema.
+ */
+export function getOutputSchema(name: string): z.ZodType | undefined {
+  return outputSchemas.get(name);
+}
+
+/**
+ * Names of all registered output schemas.
+ */
+export function listOutputSchemaNames(): string[] {
+  return [...outputSchemas.keys()];
+}
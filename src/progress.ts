@@ -0,0 +1,74 @@
+import type { LLMPredictionFragment } from "@lmstudio/sdk";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ToolContext } from "./types.js";
+
+/**
+ * Build a tool context from the MCP request handler extras.
+ * Progress is only reported when the request carries a progress token.
+ */
+export function createToolContext(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ToolContext {
+  const context: ToolContext = { signal: extra.signal };
+  const progressToken = extra._meta?.progressToken;
+
+  if (progressToken !== undefined) {
+    context.onProgress = (update) => {
+      const params: {
+        progressToken: string | number;
+        progress: number;
+        total?: number;
+        message?: string;
+        _meta?: Record<string, unknown>;
+      } = { progressToken, progress: update.progress };
+
+      if (update.total !== undefined) {
+        params.total = update.total;
+      }
+      if (update.message !== undefined) {
+        params.message = update.message;
+      }
+      if (update.meta !== undefined) {
+        params._meta = update.meta;
+      }
+
+      // Progress is best-effort; a failed notification must not fail the tool call
+      extra.sendNotification({ method: "notifications/progress", params }).catch(() => {});
+    };
+  }
+
+  return context;
+}
+
+/**
+ * Create a prediction fragment callback that forwards each fragment as a progress update.
+ * Progress is the running token count; the fragment text is sent as the message.
+ * Returns undefined when the caller did not ask for progress.
+ */
+export function createFragmentProgressHandler(
+  context: ToolContext,
+  maxTokens?: number,
+): ((fragment: LLMPredictionFragment) => void) | undefined {
+  const onProgress = context.onProgress;
+  if (!onProgress) {
+    return undefined;
+  }
+
+  let tokensCount = 0;
+  let firstFragmentAt: number | undefined;
+
+  return (fragment) => {
+    const now = Date.now();
+    firstFragmentAt ??= now;
+    tokensCount += fragment.tokensCount;
+
+    const elapsedSeconds = (now - firstFragmentAt) / 1000;
+    const tokensPerSecond = elapsedSeconds > 0 ? tokensCount / elapsedSeconds : undefined;
+
+    onProgress({
+      progress: tokensCount,
+      total: maxTokens,
+      message: fragment.content,
+      meta: { tokensPerSecond },
+    });
+  };
+}
@@ -0,0 +1,169 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getServerConfig } from "./config.js";
+import { getLastUsedAt, isPinned } from "./memory.js";
+import { listModels } from "./tools/list-models.js";
+import { listLoadedModels } from "./tools/list-loaded-models.js";
+import { ToolResult } from "./types.js";
+
+// Prompt arguments are always strings, so backends are named without validation here
+const backendArgument = z
+  .string()
+  .min(1)
+  .optional()
+  .describe("Name of the LM Studio backend to use (default: all backends, or the default backend for benchmarks)");
+
+// Default number of benchmark runs
+export const DEFAULT_BENCHMARK_RUNS = 3;
+
+// Default benchmark prompt
+export const DEFAULT_BENCHMARK_PROMPT = "Write a short story about a lighthouse keeper in exactly three paragraphs.";
+
+/**
+ * Render a tool result as live data for a prompt, or explain why the data is missing.
+ */
+function describeResult<T>(label: string, result: ToolResult<T>): string {
+  if (!result.success) {
+    return `${label}: unavailable (${result.message}: ${result.error?.message ?? "Unknown error"})`;
+  }
+  return `${label}:\n${JSON.stringify(result.data, null, 2)}`;
+}
+
+/**
+ * Build a prompt result with a single user message.
+ */
+function userPrompt(description: string, text: string) {
+  return {
+    description,
+    messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+  };
+}
+
+/**
+ * Register the model-management workflow prompts with an MCP server.
+ * Each prompt embeds live data from list_loaded_models and list_models at the time it is requested.
+ */
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "pick_model",
+    {
+      title: "Pick a model for a task",
+      description: "Choose the best loaded model for a task, or a downloaded model to load if none fits",
+      argsSchema: {
+        task: z.string().min(1).describe("The task the model is needed for"),
+        backend: backendArgument,
+      },
+    },
+    async ({ task, backend }) => {
+      const [loaded, downloaded] = await Promise.all([
+        listLoadedModels({ type: "all", backend }),
+        listModels({ type: "all", backend }),
+      ]);
+      return userPrompt(
+        `Pick a model for: ${task}`,
+        [
+          `Pick the best LM Studio model for this task: ${task}`,
+          "",
+          "Prefer a model that is already loaded. Weigh capabilities (vision, tool use), context length and size " +
+            "against what the task needs. If no loaded model is suitable, recommend a downloaded model to load with " +
+            "ensure_model_loaded. Answer with the chosen identifier or model key and a one-paragraph justification.",
+          "",
+          describeResult("Loaded models", loaded),
+          "",
+          describeResult("Downloaded models", downloaded),
+        ].join("\n"),
+      );
+    },
+  );
+
+  server.registerPrompt(
+    "free_memory",
+    {
+      title: "Free up memory",
+      description: "Decide which loaded models to unload to free memory, least recently used first",
+      argsSchema: {
+        keep: z.string().optional().describe("Comma-separated identifiers of models that must stay loaded"),
+        backend: backendArgument,
+      },
+    },
+    async ({ keep, backend }) => {
+      const loaded = await listLoadedModels({ type: "all", backend });
+      const keepIdentifiers = (keep ?? "")
+        .split(",")
+        .map((identifier) => identifier.trim())
+        .filter((identifier) => identifier.length > 0);
+      const models = loaded.success
+        ? {
+            ...loaded,
+            data: (loaded.data ?? []).map((model) => ({
+              ...model,
+              lastUsedAt: getLastUsedAt(model.identifier, model.backend),
+              pinned: isPinned(model.identifier, model.backend),
+            })),
+          }
+        : loaded;
+      const budget = getServerConfig().memoryBudget;
+
+      return userPrompt(
+        "Free up memory held by loaded models",
+        [
+          "Free up memory in LM Studio by unloading models that are not needed.",
+          "",
+          "Unload the least recently used models first (models with no lastUsedAt have not been used through this " +
+            "server). Never unload pinned models" +
+            (keepIdentifiers.length > 0 ? ` or these models: ${keepIdentifiers.join(", ")}` : "") +
+            ". Propose the list of models to unload with the memory each frees, then call unload_model for each one.",
+          budget ? `The memory budget is ${budget.maxBytes} bytes per backend.` : "No memory budget is configured.",
+          "",
+          describeResult("Loaded models", models),
+        ].join("\n"),
+      );
+    },
+  );
+
+  server.registerPrompt(
+    "benchmark_model",
+    {
+      title: "Benchmark a model",
+      description: "Measure generation speed and latency of a model with repeated chat completions",
+      argsSchema: {
+        model: z.string().min(1).describe("Model key or identifier of the model to benchmark"),
+        prompt: z.string().min(1).optional().describe("Prompt to run (default: a short story request)"),
+        runs: z
+          .string()
+          .regex(/^[1-9]\d*$/, "Must be a positive whole number")
+          .optional()
+          .describe(`Number of runs (default: ${DEFAULT_BENCHMARK_RUNS})`),
+        backend: backendArgument,
+      },
+    },
+    async ({ model, prompt, runs, backend }) => {
+      const [loaded, downloaded] = await Promise.all([
+        listLoadedModels({ type: "llm", backend }),
+        listModels({ type: "llm", name: model, backend }),
+      ]);
+      const instance = loaded.data?.find((entry) => entry.identifier === model || entry.modelKey === model);
+      const runCount = runs ? Number(runs) : DEFAULT_BENCHMARK_RUNS;
+
+      return userPrompt(
+        `Benchmark ${model}`,
+        [
+          `Benchmark the LM Studio model '${model}'.`,
+          "",
+          instance
+            ? `It is loaded as '${instance.identifier}'.`
+            : "It is not loaded; load it first with ensure_model_loaded and note the load time.",
+          `Call chat_completion ${runCount} time(s) with this single user message, keeping temperature at 0:`,
+          "",
+          prompt ?? DEFAULT_BENCHMARK_PROMPT,
+          "",
+          "From each result's stats, record tokensPerSecond, timeToFirstTokenSec, predictedTokensCount and " +
+            "totalTimeSec. Report a table of the runs and the mean and best value of each, and mention anything " +
+            "unusual such as a slow first run.",
+          "",
+          describeResult("Matching downloaded models", downloaded),
+        ].join("\n"),
+      );
+    },
+  );
+}
@@ -0,0 +1,201 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { getBackend } from "./backends.js";
+import { logger } from "./logger.js";
+import { notifyModelsChanged, onModelsChanged } from "./model-events.js";
+import { listModels } from "./tools/list-models.js";
+import { listLoadedModels } from "./tools/list-loaded-models.js";
+import { readModelInfo } from "./tools/get-model-info.js";
+import { ToolResult } from "./types.js";
+
+// Resource URIs
+export const DOWNLOADED_MODELS_URI = "lmstudio://models/downloaded";
+export const LOADED_MODELS_URI = "lmstudio://models/loaded";
+export const MODEL_URI_TEMPLATE = "lmstudio://models/{identifier}";
+
+// How often LM Studio is polled for changes made outside this server while clients are subscribed
+export const RESOURCE_POLL_INTERVAL_MS = 5000;
+
+/**
+ * URI of a loaded model's resource. Identifiers are URI-encoded, since they may contain slashes.
+ */
+export function modelUri(identifier: string): string {
+  return `lmstudio://models/${encodeURIComponent(identifier)}`;
+}
+
+/**
+ * Turn a tool result into resource contents, or throw its error so the client gets a JSON-RPC error.
+ */
+function toContents<T>(
+  uri: string,
+  result: ToolResult<T>,
+): { contents: { uri: string; mimeType: string; text: string }[] } {
+  if (!result.success) {
+    throw new Error(`${result.message}: ${result.error?.message ?? "Unknown error"}`);
+  }
+  return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(result.data, null, 2) }] };
+}
+
+// Sessions with at least one subscription; the poller runs while there are any
+const subscribedSessions = new Set<McpServer>();
+
+let pollTimer: NodeJS.Timeout | undefined;
+
+// Last seen loaded and downloaded models, to detect changes made in LM Studio itself
+let lastSnapshot: { loaded: string; downloaded: string } | undefined;
+
+// Polls run one at a time, so a refresh after this server's own change never races a regular poll
+let pollQueue: Promise<void> = Promise.resolve();
+
+// Set while the poller announces a change, so its own announcement does not trigger a refresh
+let announcing = false;
+
+// Stops refreshing the snapshot on this server's own changes; set while the poller runs
+let stopWatchingOwnChanges: (() => void) | undefined;
+
+/**
+ * Compare the loaded and downloaded models with the last poll and announce any change.
+ * Without announce, the snapshot is only refreshed: used after this server announced its own change,
+ * so the next poll does not announce it a second time. Polls that fail to reach LM Studio are skipped.
+ */
+async function pollModels(announce: boolean): Promise<void> {
+  const [loaded, downloaded] = await Promise.all([listLoadedModels({ type: "all" }), listModels({ type: "all" })]);
+  if (!loaded.success || !downloaded.success) {
+    logger.debug("Skipping resource poll:", loaded.error?.message ?? downloaded.error?.message);
+    return;
+  }
+
+  const snapshot = {
+    loaded: JSON.stringify(loaded.data?.map((model) => [model.backend, model.type, model.identifier]).sort()),
+    downloaded: JSON.stringify(downloaded.data?.map((model) => model.modelKey).sort()),
+  };
+  const previous = lastSnapshot;
+  lastSnapshot = snapshot;
+  if (!previous || !announce) {
+    return;
+  }
+
+  announcing = true;
+  try {
+    if (snapshot.loaded !== previous.loaded) {
+      notifyModelsChanged("loaded");
+    } else if (snapshot.downloaded !== previous.downloaded) {
+      notifyModelsChanged("downloaded");
+    }
+  } finally {
+    announcing = false;
+  }
+}
+
+/**
+ * Queue a poll behind any poll in progress.
+ */
+function queuePoll(announce: boolean): void {
+  pollQueue = pollQueue.then(() => pollModels(announce)).catch(() => {});
+}
+
+/**
+ * Start or stop the poller to match whether any session is subscribed.
+ */
+function updatePoller(): void {
+  if (subscribedSessions.size > 0 && !pollTimer) {
+    pollTimer = setInterval(() => queuePoll(true), RESOURCE_POLL_INTERVAL_MS);
+    pollTimer.unref();
+    stopWatchingOwnChanges = onModelsChanged(() => {
+      if (!announcing) {
+        queuePoll(false);
+      }
+    });
+    queuePoll(true);
+  } else if (subscribedSessions.size === 0 && pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+    stopWatchingOwnChanges?.();
+    stopWatchingOwnChanges = undefined;
+    lastSnapshot = undefined;
+  }
+}
+
+/**
+ * Register the model resources and resource subscriptions with an MCP server.
+ * Subscribers get `notifications/resources/updated` when models are loaded, unloaded or downloaded,
+ * through this server or in LM Studio itself.
+ */
+export function registerResources(server: McpServer): void {
+  server.registerResource(
+    "downloaded-models",
+    DOWNLOADED_MODELS_URI,
+    { description: "Models downloaded in LM Studio", mimeType: "application/json" },
+    async (uri) => toContents(uri.href, await listModels({ type: "all" })),
+  );
+
+  server.registerResource(
+    "loaded-models",
+    LOADED_MODELS_URI,
+    { description: "Models loaded in LM Studio, across all backends", mimeType: "application/json" },
+    async (uri) => toContents(uri.href, await listLoadedModels({ type: "all" })),
+  );
+
+  server.registerResource(
+    "model",
+    new ResourceTemplate(MODEL_URI_TEMPLATE, {
+      list: async () => {
+        // Model details come from the default backend, so only its instances are listed
+        const result = await listLoadedModels({ backend: getBackend().name });
+        return {
+          resources: (result.data ?? []).map((model) => ({
+            uri: modelUri(model.identifier),
+            name: model.identifier,
+            description: model.displayName,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    { description: "Details of a loaded LLM instance", mimeType: "application/json" },
+    async (uri, variables) => {
+      const identifier = decodeURIComponent(String(variables.identifier));
+      return toContents(uri.href, await readModelInfo({ identifier }));
+    },
+  );
+
+  // Subscriptions of this session
+  const subscriptions = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    subscribedSessions.add(server);
+    updatePoller();
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    if (subscriptions.size === 0) {
+      subscribedSessions.delete(server);
+      updatePoller();
+    }
+    return {};
+  });
+
+  const stopListening = onModelsChanged((change) => {
+    for (const uri of subscriptions) {
+      // Downloads only change the downloaded list; loads change every resource
+      if (change === "downloaded" && uri !== DOWNLOADED_MODELS_URI) {
+        continue;
+      }
+      server.server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    stopListening();
+    subscriptions.clear();
+    subscribedSessions.delete(server);
+    updatePoller();
+    onclose?.();
+  };
+}
@@ -0,0 +1,377 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+// Import tool handlers and schemas
+import {
+  listModels,
+  listLoadedModels,
+  loadModel,
+  unloadModel,
+  getModelInfo,
+  healthCheck,
+  chatCompletion,
+  embedText,
+  tokenize,
+  countTokens,
+  structuredCompletion,
+  toolCompletion,
+  listBackends,
+  listPresets,
+  loadPreset,
+  ensureModelLoaded,
+  planModelLoad,
+  pinModel,
+  unpinModel,
+  searchModels,
+  downloadModel,
+  getAuditLog,
+  listModelsInputSchema,
+  listLoadedModelsInputSchema,
+  loadModelInputSchema,
+  unloadModelInputSchema,
+  getModelInfoInputSchema,
+  healthCheckInputSchema,
+  chatCompletionInputSchema,
+  embedTextInputSchema,
+  tokenizeInputSchema,
+  countTokensInputSchema,
+  structuredCompletionInputSchema,
+  toolCompletionInputSchema,
+  loadPresetInputSchema,
+  ensureModelLoadedInputSchema,
+  planModelLoadInputSchema,
+  pinModelInputSchema,
+  searchModelsInputSchema,
+  downloadModelInputSchema,
+  getAuditLogInputSchema,
+  healthCheckOutputSchema,
+  listBackendsOutputSchema,
+  listModelsOutputSchema,
+  searchModelsOutputSchema,
+  downloadModelOutputSchema,
+  listLoadedModelsOutputSchema,
+  loadModelOutputSchema,
+  ensureModelLoadedOutputSchema,
+  listPresetsOutputSchema,
+  loadPresetOutputSchema,
+  planModelLoadOutputSchema,
+  pinModelOutputSchema,
+  getModelInfoOutputSchema,
+  chatCompletionOutputSchema,
+  structuredCompletionOutputSchema,
+  toolCompletionOutputSchema,
+  embedTextOutputSchema,
+  tokenizeOutputSchema,
+  countTokensOutputSchema,
+  getAuditLogOutputSchema,
+} from "./tools/index.js";
+import { ToolResult, ToolContext, errorResult, ErrorCode, toolResultSchema } from "./types.js";
+import { createToolContext } from "./progress.js";
+import { isToolAllowed } from "./auth.js";
+import { isAudited, recordAuditEntry } from "./audit.js";
+import { recordToolCall, runWithToolMetrics } from "./metrics.js";
+import { isToolEnabled } from "./config.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+
+// Server configuration
+const SERVER_CONFIG = {
+  name: "lmstudio",
+  version: "1.0.0",
+};
+
+/**
+ * Turn a tool result into an MCP result: the envelope as structured content, the same JSON as a text block
+ * for clients without structured content support, and isError for failures.
+ */
+function toCallToolResult<T>(result: ToolResult<T>): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    structuredContent: { ...result },
+    isError: !result.success,
+  };
+}
+
+/**
+ * Safe wrapper that catches any thrown errors and returns a consistent error payload.
+ * This ensures tool handlers never bubble exceptions to the MCP layer.
+ */
+async function safeToolHandler<T>(handler: () => Promise<ToolResult<T>>): Promise<ToolResult<T>> {
+  try {
+    return await handler();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return errorResult("An unexpected error occurred", ErrorCode.UNKNOWN, errorMessage);
+  }
+}
+
+/**
+ * Tool definition for registration.
+ * The output schema describes the tool's data; tools without data leave it out.
+ */
+interface ToolDefinition<TSchema extends z.ZodObject<z.ZodRawShape>, TOutput extends z.ZodType> {
+  name: string;
+  description: string;
+  schema: TSchema;
+  outputSchema?: TOutput;
+  handler: (params: z.infer<TSchema>, context: ToolContext) => Promise<ToolResult<z.infer<TOutput>>>;
+}
+
+/**
+ * Register a tool with the MCP server, unless the config file disables it.
+ * The declared output schema is the ToolResult envelope around the tool's data.
+ * Calls from authenticated clients whose token lacks the tool's scope are rejected before the handler runs.
+ * Calls to mutating tools, including rejected ones, are written to the audit log.
+ * Every call is counted in the metrics with its latency and error code.
+ */
+function registerTool<TSchema extends z.ZodObject<z.ZodRawShape>, TOutput extends z.ZodType = z.ZodVoid>(
+  server: McpServer,
+  tool: ToolDefinition<TSchema, TOutput>,
+): void {
+  if (!isToolEnabled(tool.name)) {
+    return;
+  }
+  server.registerTool(
+    tool.name,
+    {
+      description: tool.description,
+      inputSchema: tool.schema.shape,
+      outputSchema: toolResultSchema(tool.outputSchema),
+    },
+    async (params, extra) => {
+      const startedAt = Date.now();
+      const result = isToolAllowed(tool.name, extra.authInfo)
+        ? await runWithToolMetrics(tool.name, () =>
+            safeToolHandler(() => tool.handler(params as z.infer<TSchema>, createToolContext(extra))),
+          )
+        : errorResult(
+            `Token is not authorized to call '${tool.name}'`,
+            ErrorCode.FORBIDDEN,
+            "Insufficient token scope",
+          );
+      const durationMs = Date.now() - startedAt;
+      recordToolCall(tool.name, result.error?.code, durationMs / 1000);
+
+      if (isAudited(tool.name)) {
+        const clientInfo = server.server.getClientVersion();
+        await recordAuditEntry(
+          tool.name,
+          params,
+          result,
+          {
+            client: clientInfo && { name: clientInfo.name, version: clientInfo.version },
+            sessionId: extra.sessionId,
+            tokenName: extra.authInfo?.clientId,
+          },
+          durationMs,
+        );
+      }
+      return toCallToolResult(result);
+    },
+  );
+}
+
+// Empty schema for tools with no parameters
+const emptySchema = z.object({});
+
+/**
+ * Create an MCP server for LM Studio model management with all tools, resources and prompts registered.
+ * Each transport connection needs its own server instance.
+ */
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: SERVER_CONFIG.name,
+    version: SERVER_CONFIG.version,
+  });
+
+  // Register tools using the helper
+  registerTool(server, {
+    name: "health_check",
+    description: "Check connectivity to an LM Studio backend (the default backend unless one is named)",
+    schema: healthCheckInputSchema,
+    outputSchema: healthCheckOutputSchema,
+    handler: healthCheck,
+  });
+
+  registerTool(server, {
+    name: "list_backends",
+    description: "List configured LM Studio backends and check connectivity to each of them",
+    schema: emptySchema,
+    outputSchema: listBackendsOutputSchema,
+    handler: listBackends,
+  });
+
+  registerTool(server, {
+    name: "list_models",
+    description: "List downloaded models available in LM Studio, optionally filtered by type (llm, embedding, all)",
+    schema: listModelsInputSchema,
+    outputSchema: listModelsOutputSchema,
+    handler: listModels,
+  });
+
+  registerTool(server, {
+    name: "search_models",
+    description: "Search the LM Studio model catalog for models to download, with their quantizations and sizes",
+    schema: searchModelsInputSchema,
+    outputSchema: searchModelsOutputSchema,
+    handler: searchModels,
+  });
+
+  registerTool(server, {
+    name: "download_model",
+    description:
+      "Download a model from the LM Studio catalog with progress and cancellation; returns the model key for load_model",
+    schema: downloadModelInputSchema,
+    outputSchema: downloadModelOutputSchema,
+    handler: downloadModel,
+  });
+
+  registerTool(server, {
+    name: "list_loaded_models",
+    description:
+      "List currently loaded models in LM Studio, optionally filtered by type (llm, embedding, all); merges all backends unless one is named",
+    schema: listLoadedModelsInputSchema,
+    outputSchema: listLoadedModelsOutputSchema,
+    handler: listLoadedModels,
+  });
+
+  registerTool(server, {
+    name: "load_model",
+    description: "Load a model into memory in LM Studio",
+    schema: loadModelInputSchema,
+    outputSchema: loadModelOutputSchema,
+    handler: loadModel,
+  });
+
+  registerTool(server, {
+    name: "ensure_model_loaded",
+    description:
+      "Make sure a model is loaded, reusing an existing instance instead of loading a duplicate; reports whether a load happened",
+    schema: ensureModelLoadedInputSchema,
+    outputSchema: ensureModelLoadedOutputSchema,
+    handler: ensureModelLoaded,
+  });
+
+  registerTool(server, {
+    name: "unload_model",
+    description: "Unload a model from memory in LM Studio",
+    schema: unloadModelInputSchema,
+    handler: unloadModel,
+  });
+
+  registerTool(server, {
+    name: "list_presets",
+    description: "List model load presets defined in the server config",
+    schema: emptySchema,
+    outputSchema: listPresetsOutputSchema,
+    handler: listPresets,
+  });
+
+  registerTool(server, {
+    name: "load_preset",
+    description: "Load a model using a named preset from the server config (no-op if already loaded)",
+    schema: loadPresetInputSchema,
+    outputSchema: loadPresetOutputSchema,
+    handler: loadPreset,
+  });
+
+  registerTool(server, {
+    name: "plan_model_load",
+    description:
+      "Dry run of a load against the memory budget: reports whether a model fits and which least recently used models would be evicted",
+    schema: planModelLoadInputSchema,
+    outputSchema: planModelLoadOutputSchema,
+    handler: planModelLoad,
+  });
+
+  registerTool(server, {
+    name: "pin_model",
+    description: "Pin a model instance so it is never evicted to make room for other loads",
+    schema: pinModelInputSchema,
+    outputSchema: pinModelOutputSchema,
+    handler: pinModel,
+  });
+
+  registerTool(server, {
+    name: "unpin_model",
+    description: "Unpin a model instance so it can be evicted again",
+    schema: pinModelInputSchema,
+    outputSchema: pinModelOutputSchema,
+    handler: unpinModel,
+  });
+
+  registerTool(server, {
+    name: "get_model_info",
+    description: "Get detailed information about a specific loaded model in LM Studio",
+    schema: getModelInfoInputSchema,
+    outputSchema: getModelInfoOutputSchema,
+    handler: getModelInfo,
+  });
+
+  registerTool(server, {
+    name: "chat_completion",
+    description: "Run a chat prompt against a loaded model in LM Studio and return the generated reply",
+    schema: chatCompletionInputSchema,
+    outputSchema: chatCompletionOutputSchema,
+    handler: chatCompletion,
+  });
+
+  registerTool(server, {
+    name: "structured_completion",
+    description:
+      "Run a chat prompt against a loaded model that must reply with JSON matching a JSON Schema or named schema",
+    schema: structuredCompletionInputSchema,
+    outputSchema: structuredCompletionOutputSchema,
+    handler: structuredCompletion,
+  });
+
+  registerTool(server, {
+    name: "tool_completion",
+    description:
+      "Run a chat prompt with function definitions against a loaded model and return the tool calls it requests, " +
+      "with parsed arguments, without running them",
+    schema: toolCompletionInputSchema,
+    outputSchema: toolCompletionOutputSchema,
+    handler: toolCompletion,
+  });
+
+  registerTool(server, {
+    name: "embed_text",
+    description: "Create embedding vectors for a batch of strings with a loaded embedding model in LM Studio",
+    schema: embedTextInputSchema,
+    outputSchema: embedTextOutputSchema,
+    handler: embedText,
+  });
+
+  registerTool(server, {
+    name: "tokenize",
+    description: "Tokenize text with a loaded model and check whether it fits in the model's context window",
+    schema: tokenizeInputSchema,
+    outputSchema: tokenizeOutputSchema,
+    handler: tokenize,
+  });
+
+  registerTool(server, {
+    name: "count_tokens",
+    description:
+      "Count tokens in text or chat messages with a loaded model and report the remaining context window headroom",
+    schema: countTokensInputSchema,
+    outputSchema: countTokensOutputSchema,
+    handler: countTokens,
+  });
+
+  registerTool(server, {
+    name: "get_audit_log",
+    description:
+      "Query recent audit log entries of model-management tool calls (who loaded, unloaded or downloaded what, and when)",
+    schema: getAuditLogInputSchema,
+    outputSchema: getAuditLogOutputSchema,
+    handler: getAuditLog,
+  });
+
+  registerResources(server);
+  registerPrompts(server);
+
+  return server;
+}
@@ -0,0 +1,242 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { recordModelUse, withModelInUse } from "../memory.js";
+import { z } from "zod";
+import type { LLMPredictionFragment, LLMPredictionStats } from "@lmstudio/sdk";
+import { getTimeout } from "../config.js";
+import { createFragmentProgressHandler } from "../progress.js";
+import { findInvalidImageFile, imageInputSchema, prepareImage } from "../images.js";
+import {
+  ToolResult,
+  ToolContext,
+  successResult,
+  errorResult,
+  ErrorCode,
+  withErrorHandling,
+  withTimeout,
+  TimeoutError,
+} from "../types.js";
+
+// Input schema for a single chat message
+export const chatMessageSchema = z.object({
+  role: z.enum(["system", "user", "assistant"]).describe("The sender of the message"),
+  content: z.string().describe("Text content of the message"),
+});
+
+// Sampling options shared by generation tools
+export const samplingOptionsShape = {
+  temperature: z.number().min(0).optional().describe("Sampling temperature"),
+  maxTokens: z.number().int().min(1).optional().describe("Maximum number of tokens to generate"),
+  stopStrings: z.array(z.string().min(1)).optional().describe("Strings that stop generation when produced"),
+  topP: z.number().gt(0).max(1).optional().describe("Top-P (nucleus) sampling probability"),
+};
+
+// Input schema for a chat message that may carry images
+export const chatMessageWithImagesSchema = chatMessageSchema
+  .extend({
+    images: z
+      .array(imageInputSchema)
+      .min(1)
+      .optional()
+      .describe("Images for vision models, as base64 data, MCP image content or file paths (user messages only)"),
+  })
+  .refine((message) => message.images === undefined || message.role === "user", {
+    message: "Only user messages can carry images",
+    path: ["images"],
+  });
+
+// Input schema for the chat completion tool
+export const inputSchema = z.object({
+  identifier: z.string().min(1).describe("The loaded model instance identifier to run the prompt against"),
+  messages: z.array(chatMessageWithImagesSchema).min(1).describe("Conversation history, oldest message first"),
+  ...samplingOptionsShape,
+  backend: backendSchema,
+});
+
+export type ChatCompletionInput = z.infer<typeof inputSchema>;
+
+export type SamplingOptions = z.infer<z.ZodObject<typeof samplingOptionsShape>>;
+
+// Token and timing statistics for a completion
+export const completionStatsSchema = z.object({
+  promptTokensCount: z.number().optional(),
+  predictedTokensCount: z.number().optional(),
+  totalTokensCount: z.number().optional(),
+  tokensPerSecond: z.number().optional(),
+  timeToFirstTokenSec: z.number().optional(),
+  totalTimeSec: z.number().optional(),
+});
+
+export type ChatCompletionStats = z.infer<typeof completionStatsSchema>;
+
+// Output schema for a chat completion
+export const outputSchema = z.object({
+  identifier: z.string(),
+  modelKey: z.string(),
+  content: z.string(),
+  stopReason: z.string(),
+  stats: completionStatsSchema,
+});
+
+export type ChatCompletionData = z.infer<typeof outputSchema>;
+
+// Prediction options passed to the SDK
+export interface PredictionOpts {
+  temperature?: number;
+  maxTokens?: number;
+  stopStrings?: string[];
+  topPSampling?: number;
+  signal: AbortSignal;
+  onPredictionFragment?: (fragment: LLMPredictionFragment) => void;
+}
+
+/**
+ * SDK prediction options and the controller that stops the prediction in LM Studio.
+ */
+export interface Prediction {
+  opts: PredictionOpts;
+  controller: AbortController;
+}
+
+/**
+ * Translate sampling options and the tool context into SDK prediction options.
+ * The prediction gets its own abort signal, which follows the MCP request's signal and is also aborted
+ * by withGenerationTimeout, so a cancelled or timed out prediction stops running on the GPU.
+ */
+export function buildPredictionOpts(input: SamplingOptions, context: ToolContext): Prediction {
+  const controller = new AbortController();
+  const opts: PredictionOpts = { signal: controller.signal };
+
+  if (input.temperature !== undefined) {
+    opts.temperature = input.temperature;
+  }
+  if (input.maxTokens !== undefined) {
+    opts.maxTokens = input.maxTokens;
+  }
+  if (input.stopStrings !== undefined) {
+    opts.stopStrings = input.stopStrings;
+  }
+  if (input.topP !== undefined) {
+    opts.topPSampling = input.topP;
+  }
+  if (context.signal?.aborted) {
+    controller.abort();
+  } else {
+    context.signal?.addEventListener("abort", () => controller.abort(), { once: true });
+  }
+
+  const onPredictionFragment = createFragmentProgressHandler(context, input.maxTokens);
+  if (onPredictionFragment) {
+    opts.onPredictionFragment = onPredictionFragment;
+  }
+
+  return { opts, controller };
+}
+
+/**
+ * Wait for a prediction under the generation timeout (`timeouts.generation` from the config file),
+ * stopping the prediction in LM Studio when the timeout fires.
+ */
+export async function withGenerationTimeout<T>(
+  prediction: Promise<T>,
+  controller: AbortController,
+  operationName: string,
+): Promise<T> {
+  try {
+    return await withTimeout(prediction, getTimeout("generation"), operationName);
+  } catch (error) {
+    if (error instanceof TimeoutError) {
+      controller.abort();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Pick the token and timing statistics reported to callers.
+ */
+export function toCompletionStats(stats: LLMPredictionStats): ChatCompletionStats {
+  return {
+    promptTokensCount: stats.promptTokensCount,
+    predictedTokensCount: stats.predictedTokensCount,
+    totalTokensCount: stats.totalTokensCount,
+    tokensPerSecond: stats.tokensPerSecond,
+    timeToFirstTokenSec: stats.timeToFirstTokenSec,
+    totalTimeSec: stats.totalTimeSec,
+  };
+}
+
+/**
+ * Run a chat prompt against a loaded model and return the generated reply.
+ * Streams fragments as progress updates when requested and stops the prediction if the call is cancelled.
+ */
+export async function chatCompletion(
+  input: ChatCompletionInput,
+  context: ToolContext = {},
+): Promise<ToolResult<ChatCompletionData>> {
+  return withErrorHandling(async () => {
+    const { opts, controller } = buildPredictionOpts(input, context);
+    const images = input.messages.flatMap((message) => message.images ?? []);
+
+    if (images.length > 0) {
+      const modelInfo = await withReconnect(
+        (client) =>
+          withTimeout(
+            client.llm.createDynamicHandle({ identifier: input.identifier }).getModelInfo(),
+            undefined,
+            "Get model info",
+          ),
+        { backend: input.backend, idempotent: true },
+      );
+      if (!modelInfo) {
+        return errorResult(
+          `Model '${input.identifier}' not found or not loaded`,
+          ErrorCode.MODEL_NOT_LOADED,
+          "Model not loaded",
+        );
+      }
+      if (!modelInfo.vision) {
+        return errorResult(
+          `Model '${input.identifier}' does not support images`,
+          ErrorCode.VISION_NOT_SUPPORTED,
+          `Load a vision-capable model to send images (model key '${modelInfo.modelKey}' has no vision support)`,
+        );
+      }
+
+      const invalid = await findInvalidImageFile(images);
+      if (invalid !== undefined) {
+        return errorResult(invalid.message, ErrorCode.INVALID_INPUT, invalid.detail);
+      }
+    }
+
+    const result = await withModelInUse(input.identifier, input.backend, () =>
+      withReconnect(
+        async (client) => {
+          // Images are uploaded with the same client that runs the prediction
+          const messages = await Promise.all(
+            input.messages.map(async ({ images: messageImages, ...message }) =>
+              messageImages
+                ? { ...message, images: await Promise.all(messageImages.map((image) => prepareImage(client, image))) }
+                : message,
+            ),
+          );
+          return withGenerationTimeout(
+            client.llm.createDynamicHandle({ identifier: input.identifier }).respond(messages, opts),
+            controller,
+            "Chat completion",
+          );
+        },
+        { backend: input.backend },
+      ),
+    );
+
+    recordModelUse(result.modelInfo.identifier, input.backend);
+    return successResult(`Generated ${result.stats.predictedTokensCount ?? 0} token(s) with '${input.identifier}'`, {
+      identifier: result.modelInfo.identifier,
+      modelKey: result.modelInfo.modelKey,
+      content: result.content,
+      stopReason: result.stats.stopReason,
+      stats: toCompletionStats(result.stats),
+    });
+  }, `Failed to generate completion with model '${input.identifier}'`);
+}
@@ -0,0 +1,78 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { recordModelUse } from "../memory.js";
+import { z } from "zod";
+import { chatMessageSchema } from "./chat-completion.js";
+import {
+  ToolResult,
+  contextFitSchema,
+  successResult,
+  errorResult,
+  ErrorCode,
+  checkContextFit,
+  withErrorHandling,
+  withTimeout,
+} from "../types.js";
+
+// Input schema for the count tokens tool
+export const inputSchema = z.object({
+  identifier: z.string().min(1).describe("The loaded model instance identifier whose tokenizer to use"),
+  text: z.string().optional().describe("Plain text to count tokens in (use either text or messages)"),
+  messages: z
+    .array(chatMessageSchema)
+    .min(1)
+    .optional()
+    .describe("Chat messages to count tokens in, after applying the model's prompt template"),
+  reserveTokens: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Tokens to keep free in the context window, e.g. for the reply (default: 0)"),
+  backend: backendSchema,
+});
+
+export type CountTokensInput = z.infer<typeof inputSchema>;
+
+// Output schema for token counts
+export const outputSchema = contextFitSchema.extend({
+  identifier: z.string(),
+});
+
+export type CountTokensData = z.infer<typeof outputSchema>;
+
+/**
+ * Count tokens in text or a chat message array with a loaded model and check it against the model's context window.
+ * Chat messages are counted after the model's prompt template is applied, as they would be sent for generation.
+ */
+export async function countTokens(input: CountTokensInput): Promise<ToolResult<CountTokensData>> {
+  if ((input.text === undefined) === (input.messages === undefined)) {
+    return errorResult("Provide exactly one of 'text' or 'messages'", ErrorCode.INVALID_INPUT);
+  }
+
+  return withErrorHandling(async () => {
+    const { tokenCount, contextLength } = await withReconnect(
+      async (client) => {
+        const handle = client.llm.createDynamicHandle({ identifier: input.identifier });
+        const text = input.messages
+          ? await withTimeout(handle.applyPromptTemplate(input.messages), undefined, "Apply prompt template")
+          : (input.text ?? "");
+        return {
+          tokenCount: await withTimeout(handle.countTokens(text), undefined, "Count tokens"),
+          contextLength: await withTimeout(handle.getContextLength(), undefined, "Get context length"),
+        };
+      },
+      { backend: input.backend, idempotent: true },
+    );
+    const fit = checkContextFit(tokenCount, contextLength, input.reserveTokens);
+
+    const summary = fit.fitsInContext
+      ? `${fit.remainingTokens} token(s) to spare`
+      : `${-fit.remainingTokens} token(s) over the limit`;
+    recordModelUse(input.identifier, input.backend);
+    return successResult(`Counted ${tokenCount} token(s) with '${input.identifier}', ${summary}`, {
+      identifier: input.identifier,
+      ...fit,
+    });
+  }, `Failed to count tokens with model '${input.identifier}'`);
+}
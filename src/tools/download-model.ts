@@ -0,0 +1,156 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { notifyModelsChanged } from "../model-events.js";
+import { z } from "zod";
+import type { LMStudioClient, ModelSearchResultDownloadOption } from "@lmstudio/sdk";
+import { toDownloadOptionInfo, downloadOptionInfoSchema } from "./search-models.js";
+import {
+  ToolResult,
+  ToolContext,
+  successResult,
+  errorResult,
+  ErrorCode,
+  withErrorHandling,
+  withTimeout,
+} from "../types.js";
+
+// Input schema for the download model tool
+export const inputSchema = z.object({
+  model: z.string().min(1).describe("Catalog model name, as returned by search_models"),
+  quantization: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Quantization or file name of the download option, e.g. 'Q4_K_M' (default: LM Studio's recommendation)"),
+  backend: backendSchema,
+});
+
+export type DownloadModelInput = z.infer<typeof inputSchema>;
+
+// Output schema for a downloaded model
+export const outputSchema = z.object({
+  modelKey: z.string(),
+  model: z.string(),
+  option: downloadOptionInfoSchema,
+});
+
+export type DownloadedModelData = z.infer<typeof outputSchema>;
+
+/**
+ * Find a catalog model by name and pick its download option.
+ * Returns an error result when the model or quantization does not exist.
+ */
+async function findDownloadOption(
+  client: LMStudioClient,
+  input: DownloadModelInput,
+): Promise<{ name: string; option: ModelSearchResultDownloadOption } | ToolResult<never>> {
+  const entries = await withTimeout(
+    client.repository.searchModels({ searchTerm: input.model }),
+    undefined,
+    "Search models",
+  );
+  const entry = entries.find((candidate) => candidate.name.toLowerCase() === input.model.toLowerCase());
+  if (!entry) {
+    return errorResult(
+      `Model '${input.model}' was not found in the catalog`,
+      ErrorCode.MODEL_NOT_FOUND,
+      entries.length > 0
+        ? `Similar models: ${entries.map((candidate) => candidate.name).join(", ")}`
+        : "No catalog models match",
+    );
+  }
+
+  const options = await withTimeout(entry.getDownloadOptions(), undefined, "Get download options");
+  const wanted = input.quantization?.toLowerCase();
+  const option =
+    wanted === undefined
+      ? (options.find((candidate) => candidate.isRecommended()) ?? options[0])
+      : options.find(
+          (candidate) => candidate.quantization?.toLowerCase() === wanted || candidate.name.toLowerCase() === wanted,
+        );
+  if (!option) {
+    return errorResult(
+      input.quantization === undefined
+        ? `Model '${entry.name}' has no download options`
+        : `Model '${entry.name}' has no '${input.quantization}' download`,
+      ErrorCode.INVALID_INPUT,
+      `Available: ${options.map((candidate) => candidate.quantization ?? candidate.name).join(", ") || "none"}`,
+    );
+  }
+
+  return { name: entry.name, option };
+}
+
+/**
+ * Download a model from the LM Studio catalog and return the model key to load it with.
+ * Reports download progress in bytes when requested. The download is aborted if the call is cancelled.
+ */
+export async function downloadModel(
+  input: DownloadModelInput,
+  context: ToolContext = {},
+): Promise<ToolResult<DownloadedModelData>> {
+  return withErrorHandling(
+    async () => {
+      const selection = await withReconnect((client) => findDownloadOption(client, input), {
+        backend: input.backend,
+        idempotent: true,
+      });
+      if (!("option" in selection)) {
+        return selection;
+      }
+      const { name, option } = selection;
+
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      context.signal?.addEventListener("abort", onAbort, { once: true });
+      if (context.signal?.aborted) {
+        controller.abort();
+      }
+
+      const onProgress = context.onProgress;
+      let modelKey: string;
+      try {
+        // The option is bound to the client that found it, so the download does not use a fresh client
+        modelKey = await withReconnect(
+          () =>
+            option.download({
+              signal: controller.signal,
+              onProgress: onProgress
+                ? (update) =>
+                    onProgress({
+                      progress: update.downloadedBytes,
+                      total: update.totalBytes,
+                      message: `Downloading '${name}' (${option.quantization ?? option.name})`,
+                    })
+                : undefined,
+              onStartFinalizing: onProgress
+                ? () =>
+                    onProgress({ progress: option.sizeBytes, total: option.sizeBytes, message: "Finalizing download" })
+                : undefined,
+            }),
+          { backend: input.backend },
+        );
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return errorResult(
+            `Downloading model '${name}' was cancelled`,
+            ErrorCode.DOWNLOAD_CANCELLED,
+            error instanceof Error ? error.message : "Download cancelled",
+          );
+        }
+        throw error;
+      } finally {
+        context.signal?.removeEventListener("abort", onAbort);
+      }
+
+      notifyModelsChanged("downloaded");
+      return successResult(`Model '${name}' downloaded with model key '${modelKey}'`, {
+        modelKey,
+        model: name,
+        option: toDownloadOptionInfo(option),
+      });
+    },
+    `Failed to download model '${input.model}'`,
+    ErrorCode.DOWNLOAD_FAILED,
+  );
+}
@@ -0,0 +1,52 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { recordModelUse, withModelInUse } from "../memory.js";
+import { getTimeout } from "../config.js";
+import { z } from "zod";
+import { ToolResult, successResult, withErrorHandling, withTimeout } from "../types.js";
+
+// Input schema for the embed text tool
+export const inputSchema = z.object({
+  identifier: z.string().min(1).describe("The loaded embedding model instance identifier"),
+  texts: z.array(z.string()).min(1).describe("Strings to embed, one vector is returned per string"),
+  backend: backendSchema,
+});
+
+export type EmbedTextInput = z.infer<typeof inputSchema>;
+
+// Output schema for embeddings
+export const outputSchema = z.object({
+  identifier: z.string(),
+  dimensions: z.number(),
+  embeddings: z.array(z.array(z.number())),
+});
+
+export type EmbedTextData = z.infer<typeof outputSchema>;
+
+/**
+ * Create embedding vectors for a batch of strings with a loaded embedding model.
+ */
+export async function embedText(input: EmbedTextInput): Promise<ToolResult<EmbedTextData>> {
+  return withErrorHandling(async () => {
+    const results = await withModelInUse(input.identifier, input.backend, () =>
+      withReconnect(
+        (client) =>
+          withTimeout(
+            client.embedding.createDynamicHandle({ identifier: input.identifier }).embed(input.texts),
+            getTimeout("embedding"),
+            "Embed text",
+          ),
+        { backend: input.backend, idempotent: true },
+      ),
+    );
+
+    const embeddings = results.map((result) => result.embedding);
+
+    recordModelUse(input.identifier, input.backend);
+    return successResult(`Created ${embeddings.length} embedding(s) with '${input.identifier}'`, {
+      identifier: input.identifier,
+      dimensions: embeddings[0]?.length ?? 0,
+      embeddings,
+    });
+  }, `Failed to embed text with model '${input.identifier}'`);
+}
@@ -0,0 +1,224 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { recordModelUse } from "../memory.js";
+import { z } from "zod";
+import type { EmbeddingModel, LLM, LMStudioClient } from "@lmstudio/sdk";
+import { loadOptionsShape } from "../load-options.js";
+import { loadModel, outputSchema as loadedModelSchema } from "./load-model.js";
+import {
+  ToolResult,
+  ToolContext,
+  ProgressUpdate,
+  successResult,
+  errorResult,
+  ErrorCode,
+  withErrorHandling,
+  withTimeout,
+} from "../types.js";
+
+// Input schema for the ensure model loaded tool
+export const inputSchema = z.object({
+  model: z.string().min(1).describe("The model key that should be loaded (e.g., 'llama-3.2-3b-instruct')"),
+  type: z.enum(["llm", "embedding"]).optional().describe("Kind of model (default: 'llm')"),
+  identifier: z
+    .string()
+    .optional()
+    .describe("Identifier for a new instance; when set, only an instance with this identifier is reused"),
+  ...loadOptionsShape,
+  matchConfig: z
+    .boolean()
+    .optional()
+    .describe("Only reuse an instance whose context length matches contextLength (default: false)"),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Seconds to wait for a load before giving up (default: 120, or timeouts.loadModel from the config file)"),
+  backend: backendSchema,
+});
+
+export type EnsureModelLoadedInput = z.infer<typeof inputSchema>;
+
+// Output schema for an ensured model
+export const outputSchema = loadedModelSchema.extend({
+  alreadyLoaded: z.boolean(),
+});
+
+export type EnsureModelLoadedData = z.infer<typeof outputSchema>;
+
+/**
+ * An ensure call in progress, shared by every caller that made the same request while it runs.
+ * The load is only aborted once every caller has cancelled; progress goes to every waiting caller that asked for it.
+ */
+interface SharedEnsure {
+  key: string;
+  model: string;
+  result: Promise<ToolResult<EnsureModelLoadedData>>;
+  controller: AbortController;
+  activeCallers: number;
+  progressListeners: Set<(update: ProgressUpdate) => void>;
+}
+
+// Ensure calls in progress, keyed by the normalized request
+const inFlight = new Map<string, SharedEnsure>();
+
+/**
+ * Key of an ensure request: every input that affects which instance is reused or how a model is loaded,
+ * with unset inputs left out and the model type defaulted.
+ */
+function requestKey(input: EnsureModelLoadedInput, type: "llm" | "embedding"): string {
+  const entries = Object.entries({ ...input, type }).filter(([, value]) => value !== undefined);
+  return JSON.stringify(entries.sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Attach a caller to a shared ensure call and wait for its result.
+ * A caller that cancels gets LOAD_CANCELLED right away. Once no caller is left waiting, the load is aborted
+ * and the call is removed from the in-flight calls, so a later identical request starts a new load.
+ */
+async function join(shared: SharedEnsure, context: ToolContext): Promise<ToolResult<EnsureModelLoadedData>> {
+  shared.activeCallers++;
+  const onProgress = context.onProgress;
+  if (onProgress) {
+    shared.progressListeners.add(onProgress);
+  }
+
+  let onAbort = () => {};
+  const cancelled = new Promise<ToolResult<EnsureModelLoadedData>>((resolve) => {
+    onAbort = () => {
+      shared.activeCallers--;
+      if (onProgress) {
+        shared.progressListeners.delete(onProgress);
+      }
+      if (shared.activeCallers === 0) {
+        shared.controller.abort();
+        if (inFlight.get(shared.key) === shared) {
+          inFlight.delete(shared.key);
+        }
+      }
+      resolve(errorResult(`Loading model '${shared.model}' was cancelled`, ErrorCode.LOAD_CANCELLED, "Load cancelled"));
+    };
+  });
+  if (context.signal?.aborted) {
+    onAbort();
+  } else {
+    context.signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  try {
+    return await Promise.race([shared.result, cancelled]);
+  } finally {
+    context.signal?.removeEventListener("abort", onAbort);
+    if (onProgress) {
+      shared.progressListeners.delete(onProgress);
+    }
+  }
+}
+
+/**
+ * Find a loaded instance of the requested model that can be reused.
+ * LM Studio only reports the context length of loaded instances, so that is the only setting matchConfig compares.
+ */
+async function findInstance(
+  client: LMStudioClient,
+  input: EnsureModelLoadedInput,
+  type: "llm" | "embedding",
+): Promise<LLM | EmbeddingModel | undefined> {
+  const listing: Promise<(LLM | EmbeddingModel)[]> =
+    type === "embedding" ? client.embedding.listLoaded() : client.llm.listLoaded();
+  const loadedModels = await withTimeout(listing, undefined, "List loaded models");
+
+  for (const model of loadedModels) {
+    if (model.modelKey !== input.model) {
+      continue;
+    }
+    if (input.identifier && model.identifier !== input.identifier) {
+      continue;
+    }
+    if (input.matchConfig && input.contextLength !== undefined) {
+      const contextLength = await withTimeout(model.getContextLength(), undefined, "Get context length");
+      if (contextLength !== input.contextLength) {
+        continue;
+      }
+    }
+    return model;
+  }
+  return undefined;
+}
+
+/**
+ * Return a matching loaded instance, or load the model if there is none.
+ */
+async function ensureLoaded(
+  input: EnsureModelLoadedInput,
+  type: "llm" | "embedding",
+  context: ToolContext,
+): Promise<ToolResult<EnsureModelLoadedData>> {
+  return withErrorHandling(
+    async () => {
+      const existing = await withReconnect((client) => findInstance(client, input, type), {
+        backend: input.backend,
+        idempotent: true,
+      });
+      if (existing) {
+        recordModelUse(existing.identifier, input.backend);
+        return successResult(`Model '${input.model}' is already loaded as '${existing.identifier}'`, {
+          type,
+          identifier: existing.identifier,
+          modelKey: existing.modelKey,
+          path: existing.path,
+          alreadyLoaded: true,
+        });
+      }
+
+      const { data, ...result } = await loadModel(input, context);
+      if (!data) {
+        return result;
+      }
+      return { ...result, data: { ...data, alreadyLoaded: false } };
+    },
+    `Failed to ensure model '${input.model}' is loaded`,
+    ErrorCode.LOAD_FAILED,
+  );
+}
+
+/**
+ * Make sure a model is loaded without creating duplicate instances.
+ * Reuses a loaded instance with the same model key (and identifier or context length when requested),
+ * and only loads the model when there is none. Concurrent calls with the same request share a single load,
+ * which is only cancelled when every one of those callers has cancelled.
+ */
+export async function ensureModelLoaded(
+  input: EnsureModelLoadedInput,
+  context: ToolContext = {},
+): Promise<ToolResult<EnsureModelLoadedData>> {
+  const type = input.type ?? "llm";
+  const key = requestKey(input, type);
+
+  let shared = inFlight.get(key);
+  if (!shared || shared.controller.signal.aborted) {
+    const controller = new AbortController();
+    const progressListeners = new Set<(update: ProgressUpdate) => void>();
+    const sharedContext: ToolContext = { signal: controller.signal };
+    // Load progress is only requested from LM Studio when the caller starting the load asked for it
+    if (context.onProgress) {
+      sharedContext.onProgress = (update) => progressListeners.forEach((listener) => listener(update));
+    }
+    const created: SharedEnsure = {
+      key,
+      model: input.model,
+      result: ensureLoaded(input, type, sharedContext).finally(() => {
+        if (inFlight.get(key) === created) {
+          inFlight.delete(key);
+        }
+      }),
+      controller,
+      activeCallers: 0,
+      progressListeners,
+    };
+    inFlight.set(key, created);
+    shared = created;
+  }
+  return join(shared, context);
+}
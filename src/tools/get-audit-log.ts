@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { auditEntrySchema, getAuditSettings, readAuditEntries, type AuditEntry } from "../audit.js";
+import { ToolResult, successResult, errorResult, ErrorCode, withErrorHandling } from "../types.js";
+
+// Default number of entries returned
+const DEFAULT_LIMIT = 50;
+
+// Input schema for the get audit log tool
+export const inputSchema = z.object({
+  tool: z.string().min(1).optional().describe("Only entries for this tool (e.g., 'load_model')"),
+  success: z.boolean().optional().describe("Only successful (true) or failed (false) calls"),
+  errorCode: z.enum(ErrorCode).optional().describe("Only failed calls with this error code"),
+  sessionId: z.string().min(1).optional().describe("Only calls made in this MCP session"),
+  clientName: z.string().min(1).optional().describe("Only calls from MCP clients with this name"),
+  since: z.iso.datetime({ offset: true }).optional().describe("Only calls at or after this ISO 8601 timestamp"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe(`Maximum number of entries to return, newest first (default: ${DEFAULT_LIMIT})`),
+});
+
+export type GetAuditLogInput = z.infer<typeof inputSchema>;
+
+// Output schema for the get audit log tool
+export const outputSchema = z.array(auditEntrySchema);
+
+/**
+ * Query recent entries of the audit log of model-management tool calls, newest first.
+ */
+export async function getAuditLog(input: GetAuditLogInput = {}): Promise<ToolResult<AuditEntry[]>> {
+  if (!getAuditSettings()) {
+    return errorResult(
+      "Audit log is disabled",
+      ErrorCode.INVALID_INPUT,
+      "Set audit.enabled to true in the config file",
+    );
+  }
+
+  return withErrorHandling(async () => {
+    const { limit, ...filter } = input;
+    const entries = await readAuditEntries({ ...filter, limit: limit ?? DEFAULT_LIMIT });
+    return successResult(`Found ${entries.length} audit log entry(s)`, entries);
+  }, "Failed to read audit log");
+}
@@ -1,32 +1,44 @@
-import { getClient } from "../client.js";
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { recordModelUse } from "../memory.js";
 import { z } from "zod";
 import { ToolResult, successResult, errorResult, ErrorCode, withErrorHandling, withTimeout } from "../types.js";
 
 // Input schema for the get model info tool
 export const inputSchema = z.object({
   identifier: z.string().min(1).describe("The model instance identifier to get information about"),
+  backend: backendSchema,
 });
 
 export type GetModelInfoInput = z.infer<typeof inputSchema>;
 
-// Output data for model info
-export interface ModelInfoData {
-  identifier: string;
-  modelKey: string;
-  path: string;
-  displayName: string;
-  sizeBytes: number;
-  contextLength?: number;
-}
+// Output schema for model info
+export const outputSchema = z.object({
+  identifier: z.string(),
+  modelKey: z.string(),
+  path: z.string(),
+  displayName: z.string(),
+  sizeBytes: z.number(),
+  contextLength: z.number().optional(),
+});
+
+export type ModelInfoData = z.infer<typeof outputSchema>;
 
 /**
- * Get detailed information about a specific loaded model instance.
+ * Read information about a loaded model instance without counting it as a use of the model.
+ * The model resource reads it this way, since subscribed clients re-read it on every change.
  */
-export async function getModelInfo(input: GetModelInfoInput): Promise<ToolResult<ModelInfoData>> {
+export async function readModelInfo(input: GetModelInfoInput): Promise<ToolResult<ModelInfoData>> {
   return withErrorHandling(async () => {
-    const client = getClient();
-    const handle = client.llm.createDynamicHandle({ identifier: input.identifier });
-    const modelInfo = await withTimeout(handle.getModelInfo(), undefined, "Get model info");
+    const modelInfo = await withReconnect(
+      (client) =>
+        withTimeout(
+          client.llm.createDynamicHandle({ identifier: input.identifier }).getModelInfo(),
+          undefined,
+          "Get model info",
+        ),
+      { backend: input.backend, idempotent: true },
+    );
 
     if (!modelInfo) {
       return errorResult(
@@ -46,3 +58,14 @@ export async function getModelInfo(input: GetModelInfoInput): Promise<ToolResult
     });
   }, `Failed to get information for model '${input.identifier}'`);
 }
+
+/**
+ * Get detailed information about a specific loaded model instance.
+ */
+export async function getModelInfo(input: GetModelInfoInput): Promise<ToolResult<ModelInfoData>> {
+  const result = await readModelInfo(input);
+  if (result.data) {
+    recordModelUse(result.data.identifier, input.backend);
+  }
+  return result;
+}
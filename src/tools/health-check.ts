@@ -1,34 +1,79 @@
+import { backendSchema } from "../backends.js";
 import { testConnection } from "../client.js";
 import { z } from "zod";
-import { ToolResult, successResult, errorResult, ErrorCode } from "../types.js";
+import { ToolResult, successResult, errorResult, ErrorCode, mapErrorCode } from "../types.js";
 
-// Input schema for the health check tool (no inputs required)
-export const inputSchema = z.object({});
+// Input schema for the health check tool
+export const inputSchema = z.object({
+  backend: backendSchema,
+});
 
 export type HealthCheckInput = z.infer<typeof inputSchema>;
 
-// Output data for health check
-export interface HealthCheckData {
-  connected: boolean;
-  baseUrl: string;
-}
+// Output schema of a backend's connection state (see ConnectionState)
+export const connectionStateSchema = z.enum(["connecting", "connected", "degraded", "disconnected"]);
+
+// Output schema of a recorded change of connection state (see ConnectionTransition)
+export const connectionTransitionSchema = z.object({
+  state: connectionStateSchema,
+  at: z.string(),
+  error: z.string().optional(),
+});
+
+// Output schema for health check
+export const outputSchema = z.object({
+  backend: z.string(),
+  connected: z.boolean(),
+  baseUrl: z.string(),
+  state: connectionStateSchema,
+  lastConnectedAt: z.string().optional(),
+  reconnectAttempts: z.number(),
+  history: z.array(connectionTransitionSchema),
+});
+
+export type HealthCheckData = z.infer<typeof outputSchema>;
 
 /**
- * Check the health/connectivity of the LM Studio server.
+ * Check the health/connectivity of an LM Studio backend and report its connection state history.
+ * The connection state is returned as data whether or not the backend is reachable.
  */
-export async function healthCheck(_input: HealthCheckInput = {}): Promise<ToolResult<HealthCheckData>> {
-  const result = await testConnection();
+export async function healthCheck(input: HealthCheckInput = {}): Promise<ToolResult<HealthCheckData>> {
+  let result;
+  try {
+    result = await testConnection(undefined, input.backend);
+  } catch (error) {
+    return errorResult(
+      `Failed to check backend '${input.backend}'`,
+      mapErrorCode(error),
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+
+  const data: HealthCheckData = {
+    backend: result.backend,
+    connected: result.connected,
+    baseUrl: result.baseUrl,
+    state: result.connection.state,
+    reconnectAttempts: result.connection.reconnectAttempts,
+    history: result.connection.history,
+  };
+  if (result.connection.lastConnectedAt) {
+    data.lastConnectedAt = result.connection.lastConnectedAt;
+  }
 
   if (result.connected) {
-    return successResult(`Connected to LM Studio at ${result.baseUrl}`, {
-      connected: true,
-      baseUrl: result.baseUrl,
-    });
+    return successResult(`Connected to LM Studio at ${result.baseUrl}`, data);
   }
 
-  return errorResult(
-    `Failed to connect to LM Studio at ${result.baseUrl}`,
-    ErrorCode.CONNECTION_FAILED,
-    result.error || "Connection failed",
-  );
+  const lastConnected = result.connection.lastConnectedAt
+    ? `last connected ${result.connection.lastConnectedAt}`
+    : "never connected";
+  return {
+    ...errorResult(
+      `Failed to connect to LM Studio at ${result.baseUrl} (${lastConnected}, ${result.connection.reconnectAttempts} reconnect attempt(s))`,
+      ErrorCode.CONNECTION_FAILED,
+      result.error || "Connection failed",
+    ),
+    data,
+  };
 }
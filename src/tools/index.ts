@@ -5,16 +5,84 @@ export { loadModel } from "./load-model.js";
 export { unloadModel } from "./unload-model.js";
 export { getModelInfo } from "./get-model-info.js";
 export { healthCheck } from "./health-check.js";
+export { chatCompletion } from "./chat-completion.js";
+export { embedText } from "./embed-text.js";
+export { tokenize } from "./tokenize.js";
+export { countTokens } from "./count-tokens.js";
+export { structuredCompletion } from "./structured-completion.js";
+export { toolCompletion } from "./tool-completion.js";
+export { listBackends } from "./list-backends.js";
+export { listPresets } from "./list-presets.js";
+export { loadPreset } from "./load-preset.js";
+export { ensureModelLoaded } from "./ensure-model-loaded.js";
+export { planModelLoad } from "./plan-model-load.js";
+export { pinModel, unpinModel } from "./pin-model.js";
+export { searchModels } from "./search-models.js";
+export { downloadModel } from "./download-model.js";
+export { getAuditLog } from "./get-audit-log.js";
 
 // Export input schemas (only those with parameters)
+export { inputSchema as listModelsInputSchema } from "./list-models.js";
+export { inputSchema as listLoadedModelsInputSchema } from "./list-loaded-models.js";
 export { inputSchema as loadModelInputSchema } from "./load-model.js";
 export { inputSchema as unloadModelInputSchema } from "./unload-model.js";
 export { inputSchema as getModelInfoInputSchema } from "./get-model-info.js";
+export { inputSchema as healthCheckInputSchema } from "./health-check.js";
+export { inputSchema as chatCompletionInputSchema } from "./chat-completion.js";
+export { inputSchema as embedTextInputSchema } from "./embed-text.js";
+export { inputSchema as tokenizeInputSchema } from "./tokenize.js";
+export { inputSchema as countTokensInputSchema } from "./count-tokens.js";
+export { inputSchema as structuredCompletionInputSchema } from "./structured-completion.js";
+export { inputSchema as toolCompletionInputSchema } from "./tool-completion.js";
+export { inputSchema as loadPresetInputSchema } from "./load-preset.js";
+export { inputSchema as ensureModelLoadedInputSchema } from "./ensure-model-loaded.js";
+export { inputSchema as planModelLoadInputSchema } from "./plan-model-load.js";
+export { inputSchema as pinModelInputSchema } from "./pin-model.js";
+export { inputSchema as searchModelsInputSchema } from "./search-models.js";
+export { inputSchema as downloadModelInputSchema } from "./download-model.js";
+export { inputSchema as getAuditLogInputSchema } from "./get-audit-log.js";
+
+// Export output schemas (the data inside each tool's ToolResult)
+export { outputSchema as listModelsOutputSchema } from "./list-models.js";
+export { outputSchema as listLoadedModelsOutputSchema } from "./list-loaded-models.js";
+export { outputSchema as loadModelOutputSchema } from "./load-model.js";
+export { outputSchema as getModelInfoOutputSchema } from "./get-model-info.js";
+export { outputSchema as healthCheckOutputSchema } from "./health-check.js";
+export { outputSchema as chatCompletionOutputSchema } from "./chat-completion.js";
+export { outputSchema as embedTextOutputSchema } from "./embed-text.js";
+export { outputSchema as tokenizeOutputSchema } from "./tokenize.js";
+export { outputSchema as countTokensOutputSchema } from "./count-tokens.js";
+export { outputSchema as structuredCompletionOutputSchema } from "./structured-completion.js";
+export { outputSchema as toolCompletionOutputSchema } from "./tool-completion.js";
+export { outputSchema as listBackendsOutputSchema } from "./list-backends.js";
+export { outputSchema as listPresetsOutputSchema } from "./list-presets.js";
+export { outputSchema as loadPresetOutputSchema } from "./load-preset.js";
+export { outputSchema as ensureModelLoadedOutputSchema } from "./ensure-model-loaded.js";
+export { outputSchema as planModelLoadOutputSchema } from "./plan-model-load.js";
+export { outputSchema as pinModelOutputSchema } from "./pin-model.js";
+export { outputSchema as searchModelsOutputSchema } from "./search-models.js";
+export { outputSchema as downloadModelOutputSchema } from "./download-model.js";
+export { outputSchema as getAuditLogOutputSchema } from "./get-audit-log.js";
 
 // Export types
 export type { DownloadedModelInfo } from "./list-models.js";
 export type { LoadedModelInfo } from "./list-loaded-models.js";
-export type { LoadModelInput, LoadedModelData } from "./load-model.js";
+export type { LoadModelInput, LoadedModelData, LoadConfigData } from "./load-model.js";
 export type { UnloadModelInput } from "./unload-model.js";
 export type { GetModelInfoInput, ModelInfoData } from "./get-model-info.js";
 export type { HealthCheckInput, HealthCheckData } from "./health-check.js";
+export type { ChatCompletionInput, ChatCompletionData, ChatCompletionStats } from "./chat-completion.js";
+export type { EmbedTextInput, EmbedTextData } from "./embed-text.js";
+export type { TokenizeInput, TokenizeData } from "./tokenize.js";
+export type { CountTokensInput, CountTokensData } from "./count-tokens.js";
+export type { StructuredCompletionInput, StructuredCompletionData } from "./structured-completion.js";
+export type { ToolCompletionInput, ToolCompletionData, ToolCallInfo } from "./tool-completion.js";
+export type { BackendStatus } from "./list-backends.js";
+export type { PresetInfo } from "./list-presets.js";
+export type { LoadPresetInput, LoadPresetData } from "./load-preset.js";
+export type { EnsureModelLoadedInput, EnsureModelLoadedData } from "./ensure-model-loaded.js";
+export type { PlanModelLoadInput } from "./plan-model-load.js";
+export type { PinModelInput, PinModelData } from "./pin-model.js";
+export type { SearchModelsInput, SearchResultInfo, DownloadOptionInfo } from "./search-models.js";
+export type { DownloadModelInput, DownloadedModelData } from "./download-model.js";
+export type { GetAuditLogInput } from "./get-audit-log.js";
@@ -0,0 +1,53 @@
+import { listBackends as listConfiguredBackends } from "../backends.js";
+import { testConnection } from "../client.js";
+import { connectionStateSchema } from "./health-check.js";
+import { z } from "zod";
+import { ToolResult, successResult, withErrorHandling } from "../types.js";
+
+// Input schema for the list backends tool (no inputs required)
+export const inputSchema = z.object({});
+
+export type ListBackendsInput = z.infer<typeof inputSchema>;
+
+// Output data for a configured backend
+export const backendStatusSchema = z.object({
+  name: z.string(),
+  baseUrl: z.string(),
+  isDefault: z.boolean(),
+  connected: z.boolean(),
+  state: connectionStateSchema,
+  error: z.string().optional(),
+});
+
+export type BackendStatus = z.infer<typeof backendStatusSchema>;
+
+// Output schema for the list backends tool
+export const outputSchema = z.array(backendStatusSchema);
+
+/**
+ * List the configured LM Studio backends and run a health check against each of them in parallel.
+ */
+export async function listBackends(_input: ListBackendsInput = {}): Promise<ToolResult<BackendStatus[]>> {
+  return withErrorHandling(async () => {
+    const backends = listConfiguredBackends();
+    const statuses = await Promise.all(
+      backends.map(async (backend, index): Promise<BackendStatus> => {
+        const result = await testConnection(undefined, backend.name);
+        const status: BackendStatus = {
+          name: backend.name,
+          baseUrl: backend.baseUrl,
+          isDefault: index === 0,
+          connected: result.connected,
+          state: result.connection.state,
+        };
+        if (result.error) {
+          status.error = result.error;
+        }
+        return status;
+      }),
+    );
+
+    const connected = statuses.filter((status) => status.connected).length;
+    return successResult(`${connected} of ${statuses.length} backend(s) reachable`, statuses);
+  }, "Failed to list backends");
+}
@@ -1,41 +1,138 @@
-import { getClient } from "../client.js";
+import { backendSchema, listBackends } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { getExpiresAt } from "../memory.js";
 import { z } from "zod";
-import { ToolResult, successResult, withErrorHandling, withTimeout } from "../types.js";
+import type { LMStudioClient } from "@lmstudio/sdk";
+import { ToolResult, successResult, errorResult, ErrorCode, withErrorHandling, withTimeout } from "../types.js";
 
-// Input schema for the list loaded models tool (no inputs required)
-export const inputSchema = z.object({});
+// Input schema for the list loaded models tool
+export const inputSchema = z.object({
+  type: z
+    .enum(["llm", "embedding", "all"])
+    .optional()
+    .describe("Kind of models to list: 'llm', 'embedding' or 'all' (default: 'llm')"),
+  backend: backendSchema.describe("Name of the LM Studio backend to list (default: all configured backends)"),
+});
 
 export type ListLoadedModelsInput = z.infer<typeof inputSchema>;
 
 // Output data for loaded models
-export interface LoadedModelInfo {
-  identifier: string;
-  modelKey: string;
-  path: string;
-  displayName: string;
-  sizeBytes: number;
-  vision: boolean;
-  trainedForToolUse: boolean;
+export const loadedModelInfoSchema = z.object({
+  backend: z.string(),
+  type: z.enum(["llm", "embedding"]),
+  identifier: z.string(),
+  modelKey: z.string(),
+  path: z.string(),
+  displayName: z.string(),
+  sizeBytes: z.number(),
+  vision: z.boolean(),
+  trainedForToolUse: z.boolean(),
+  expiresAt: z.string().optional(),
+});
+
+export type LoadedModelInfo = z.infer<typeof loadedModelInfoSchema>;
+
+// Output schema for the list loaded models tool
+export const outputSchema = z.array(loadedModelInfoSchema);
+
+/**
+ * List the models loaded on a single backend.
+ */
+async function listLoadedOn(
+  client: LMStudioClient,
+  backend: string,
+  type: "llm" | "embedding" | "all",
+): Promise<LoadedModelInfo[]> {
+  const models: LoadedModelInfo[] = [];
+
+  if (type !== "embedding") {
+    const loadedModels = await withTimeout(client.llm.listLoaded(), undefined, "List loaded models");
+    for (const model of loadedModels) {
+      models.push({
+        backend,
+        type: "llm",
+        identifier: model.identifier,
+        modelKey: model.modelKey,
+        path: model.path,
+        displayName: model.displayName,
+        sizeBytes: model.sizeBytes,
+        vision: model.vision,
+        trainedForToolUse: model.trainedForToolUse,
+      });
+    }
+  }
+
+  if (type !== "llm") {
+    const loadedModels = await withTimeout(client.embedding.listLoaded(), undefined, "List loaded models");
+    for (const model of loadedModels) {
+      models.push({
+        backend,
+        type: "embedding",
+        identifier: model.identifier,
+        modelKey: model.modelKey,
+        path: model.path,
+        displayName: model.displayName,
+        sizeBytes: model.sizeBytes,
+        vision: false,
+        trainedForToolUse: false,
+      });
+    }
+  }
+
+  for (const model of models) {
+    const expiresAt = getExpiresAt(model.identifier, backend);
+    if (expiresAt) {
+      model.expiresAt = expiresAt;
+    }
+  }
+  return models;
 }
 
 /**
- * Get currently loaded/active LLM models in LM Studio.
+ * List the models loaded on a backend, reconnecting to it if the connection dropped.
  */
-export async function listLoadedModels(_input: ListLoadedModelsInput = {}): Promise<ToolResult<LoadedModelInfo[]>> {
+function listLoadedWithReconnect(backend: string, type: "llm" | "embedding" | "all"): Promise<LoadedModelInfo[]> {
+  return withReconnect((client) => listLoadedOn(client, backend, type), { backend, idempotent: true });
+}
+
+/**
+ * Get currently loaded/active models in LM Studio, optionally filtered by model type.
+ * Without a backend, every configured backend is queried and the results are merged, each entry tagged
+ * with its backend; unreachable backends are skipped and named in the message.
+ * Instances with a server-managed idle TTL report when they expire.
+ * Embedding models never support vision or tool use, so those flags are always false for them.
+ */
+export async function listLoadedModels(input: ListLoadedModelsInput = {}): Promise<ToolResult<LoadedModelInfo[]>> {
+  const type = input.type ?? "llm";
+
   return withErrorHandling(async () => {
-    const client = getClient();
-    const loadedModels = await withTimeout(client.llm.listLoaded(), undefined, "List loaded models");
+    const backends = input.backend === undefined ? listBackends().map((backend) => backend.name) : [input.backend];
+    if (backends.length === 1) {
+      const models = await listLoadedWithReconnect(backends[0], type);
+      return successResult(`Found ${models.length} loaded model(s)`, models);
+    }
+
+    const results = await Promise.allSettled(backends.map((backend) => listLoadedWithReconnect(backend, type)));
+    const models: LoadedModelInfo[] = [];
+    const failures: string[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        models.push(...result.value);
+      } else {
+        failures.push(backends[index]);
+      }
+    });
+
+    if (failures.length === backends.length) {
+      const reason = (results[0] as PromiseRejectedResult).reason;
+      return errorResult(
+        "Failed to list loaded models: no backend reachable",
+        ErrorCode.CONNECTION_FAILED,
+        reason instanceof Error ? reason.message : "Unknown error",
+      );
+    }
 
-    const models = loadedModels.map((model) => ({
-      identifier: model.identifier,
-      modelKey: model.modelKey,
-      path: model.path,
-      displayName: model.displayName,
-      sizeBytes: model.sizeBytes,
-      vision: model.vision,
-      trainedForToolUse: model.trainedForToolUse,
-    }));
-
-    return successResult(`Found ${models.length} loaded model(s)`, models);
+    const message = `Found ${models.length} loaded model(s) across ${backends.length - failures.length} backend(s)`;
+    return successResult(failures.length > 0 ? `${message}; unreachable: ${failures.join(", ")}` : message, models);
   }, "Failed to list loaded models");
 }
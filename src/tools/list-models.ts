@@ -1,40 +1,174 @@
-import { getClient } from "../client.js";
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
 import { z } from "zod";
+import type { LMStudioClient, ModelInfo } from "@lmstudio/sdk";
 import { ToolResult, successResult, withErrorHandling, withTimeout } from "../types.js";
 
-// Input schema for the list models tool (no inputs required)
-export const inputSchema = z.object({});
+// Fields the model list can be sorted by
+export const listModelsSortFields = ["modelKey", "displayName", "sizeBytes", "maxContextLength"] as const;
+
+// Input schema for the list models tool
+export const inputSchema = z.object({
+  type: z
+    .enum(["llm", "embedding", "all"])
+    .optional()
+    .describe("Kind of models to list: 'llm', 'embedding' or 'all' (default: 'llm')"),
+  name: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only models whose key or display name contains this text (case-insensitive)"),
+  architecture: z.string().min(1).optional().describe("Only models with this architecture, e.g. 'llama' or 'qwen2'"),
+  maxSizeBytes: z.number().int().min(1).optional().describe("Only models at most this large on disk"),
+  capabilities: z
+    .array(z.enum(["vision", "toolUse"]))
+    .min(1)
+    .optional()
+    .describe("Only models with all of these capabilities"),
+  sortBy: z.enum(listModelsSortFields).optional().describe("Field to sort by (default: LM Studio's order)"),
+  sortOrder: z.enum(["asc", "desc"]).optional().describe("Sort direction (default: 'asc')"),
+  limit: z.number().int().min(1).optional().describe("Maximum number of models to return"),
+  offset: z.number().int().min(0).optional().describe("Number of matching models to skip (default: 0)"),
+  backend: backendSchema,
+});
 
 export type ListModelsInput = z.infer<typeof inputSchema>;
 
 // Output data for downloaded models
-export interface DownloadedModelInfo {
-  modelKey: string;
-  path: string;
-  displayName: string;
-  sizeBytes: number;
-  architecture?: string;
-  quantization?: string;
+export const downloadedModelInfoSchema = z.object({
+  type: z.enum(["llm", "embedding"]),
+  modelKey: z.string(),
+  path: z.string(),
+  displayName: z.string(),
+  sizeBytes: z.number(),
+  architecture: z.string().optional(),
+  quantization: z.string().optional(),
+  parameters: z.string().optional(),
+  format: z.string(),
+  maxContextLength: z.number(),
+  vision: z.boolean(),
+  trainedForToolUse: z.boolean(),
+  loaded: z.boolean(),
+});
+
+export type DownloadedModelInfo = z.infer<typeof downloadedModelInfoSchema>;
+
+// Output schema for the list models tool
+export const outputSchema = z.array(downloadedModelInfoSchema);
+
+/**
+ * Fetch downloaded models for the requested type.
+ */
+function listDownloaded(client: LMStudioClient, type: "llm" | "embedding" | "all"): Promise<ModelInfo[]> {
+  switch (type) {
+    case "llm":
+      return client.system.listDownloadedModels("llm");
+    case "embedding":
+      return client.system.listDownloadedModels("embedding");
+    default:
+      return client.system.listDownloadedModels();
+  }
+}
+
+/**
+ * Fetch the keys of loaded models for the requested type.
+ */
+async function listLoadedKeys(client: LMStudioClient, type: "llm" | "embedding" | "all"): Promise<Set<string>> {
+  const listings: Promise<{ modelKey: string }[]>[] = [];
+  if (type !== "embedding") {
+    listings.push(client.llm.listLoaded());
+  }
+  if (type !== "llm") {
+    listings.push(client.embedding.listLoaded());
+  }
+  const loaded = await Promise.all(listings);
+  return new Set(loaded.flat().map((model) => model.modelKey));
+}
+
+/**
+ * Check whether a model passes the input filters.
+ */
+function matchesFilters(model: DownloadedModelInfo, input: ListModelsInput): boolean {
+  if (input.name !== undefined) {
+    const name = input.name.toLowerCase();
+    if (!model.modelKey.toLowerCase().includes(name) && !model.displayName.toLowerCase().includes(name)) {
+      return false;
+    }
+  }
+  if (input.architecture !== undefined && model.architecture?.toLowerCase() !== input.architecture.toLowerCase()) {
+    return false;
+  }
+  if (input.maxSizeBytes !== undefined && model.sizeBytes > input.maxSizeBytes) {
+    return false;
+  }
+  if (input.capabilities?.includes("vision") && !model.vision) {
+    return false;
+  }
+  if (input.capabilities?.includes("toolUse") && !model.trainedForToolUse) {
+    return false;
+  }
+  return true;
 }
 
 /**
- * List all downloaded LLM models available in LM Studio.
- * Uses the system.listDownloadedModels() API to get models from the LM Studio library.
+ * List downloaded models available in LM Studio, optionally filtered by model type.
+ * Uses the system.listDownloadedModels() API to get models from the LM Studio library, cross-referenced
+ * with the loaded models. Filters apply before sorting, and sorting before pagination.
+ * Embedding models never support vision or tool use, so those flags are always false for them.
  */
-export async function listModels(_input: ListModelsInput = {}): Promise<ToolResult<DownloadedModelInfo[]>> {
+export async function listModels(input: ListModelsInput = {}): Promise<ToolResult<DownloadedModelInfo[]>> {
+  const type = input.type ?? "llm";
+
   return withErrorHandling(async () => {
-    const client = getClient();
-    const downloadedModels = await withTimeout(client.system.listDownloadedModels("llm"), undefined, "List models");
-
-    const models = downloadedModels.map((model) => ({
-      modelKey: model.modelKey,
-      path: model.path,
-      displayName: model.displayName,
-      sizeBytes: model.sizeBytes,
-      architecture: model.architecture,
-      quantization: model.quantization?.name,
-    }));
-
-    return successResult(`Found ${models.length} downloaded model(s)`, models);
+    const [downloadedModels, loadedKeys] = await withReconnect(
+      (client) =>
+        Promise.all([
+          withTimeout(listDownloaded(client, type), undefined, "List models"),
+          withTimeout(listLoadedKeys(client, type), undefined, "List loaded models"),
+        ]),
+      { backend: input.backend, idempotent: true },
+    );
+
+    const models: DownloadedModelInfo[] = downloadedModels
+      .map((model) => ({
+        type: model.type,
+        modelKey: model.modelKey,
+        path: model.path,
+        displayName: model.displayName,
+        sizeBytes: model.sizeBytes,
+        architecture: model.architecture,
+        quantization: model.quantization?.name,
+        parameters: model.paramsString,
+        format: model.format,
+        maxContextLength: model.maxContextLength,
+        vision: model.type === "llm" && model.vision,
+        trainedForToolUse: model.type === "llm" && model.trainedForToolUse,
+        loaded: loadedKeys.has(model.modelKey),
+      }))
+      .filter((model) => matchesFilters(model, input));
+
+    const sortBy = input.sortBy;
+    if (sortBy) {
+      const direction = input.sortOrder === "desc" ? -1 : 1;
+      models.sort((a, b) => {
+        const left = a[sortBy];
+        const right = b[sortBy];
+        const order =
+          typeof left === "number" && typeof right === "number"
+            ? left - right
+            : String(left).localeCompare(String(right));
+        return order * direction;
+      });
+    }
+
+    const offset = input.offset ?? 0;
+    const page = models.slice(offset, input.limit === undefined ? undefined : offset + input.limit);
+    if (page.length === models.length) {
+      return successResult(`Found ${models.length} downloaded model(s)`, page);
+    }
+    return successResult(
+      `Found ${models.length} downloaded model(s), showing ${page.length} from offset ${offset}`,
+      page,
+    );
   }, "Failed to list models");
 }
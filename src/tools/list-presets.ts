@@ -0,0 +1,35 @@
+import { getServerConfig, presetSchema } from "../config.js";
+import { z } from "zod";
+import { ToolResult, successResult } from "../types.js";
+
+// Input schema for the list presets tool (no inputs required)
+export const inputSchema = z.object({});
+
+export type ListPresetsInput = z.infer<typeof inputSchema>;
+
+// Output data for a configured preset
+export const presetInfoSchema = presetSchema.extend({
+  name: z.string(),
+  type: z.enum(["llm", "embedding"]),
+  identifier: z.string(),
+});
+
+export type PresetInfo = z.infer<typeof presetInfoSchema>;
+
+// Output schema for the list presets tool
+export const outputSchema = z.array(presetInfoSchema);
+
+/**
+ * List the model load presets defined in the config file.
+ * Presets without an explicit identifier load under their own name.
+ */
+export async function listPresets(_input: ListPresetsInput = {}): Promise<ToolResult<PresetInfo[]>> {
+  const presets = Object.entries(getServerConfig().presets ?? {}).map(([name, preset]) => ({
+    name,
+    ...preset,
+    type: preset.type ?? "llm",
+    identifier: preset.identifier ?? name,
+  }));
+
+  return successResult(`Found ${presets.length} preset(s)`, presets);
+}
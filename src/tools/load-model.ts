@@ -1,67 +1,310 @@
-import { getClient } from "../client.js";
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { getServerConfig, getTimeout } from "../config.js";
+import { LLM_ONLY_CONFIG_KEYS, loadOptionsShape } from "../load-options.js";
+import {
+  evictModels,
+  getExpiresAt,
+  planEviction,
+  recordModelUse,
+  setIdleTtl,
+  clearIdleTtl,
+  evictionCandidateSchema,
+  type EvictionCandidate,
+} from "../memory.js";
+import { notifyModelsChanged } from "../model-events.js";
 import { z } from "zod";
-import { ToolResult, successResult, ErrorCode, withErrorHandling, withTimeout } from "../types.js";
+import type { LLMLoadModelConfig } from "@lmstudio/sdk";
+import {
+  ToolResult,
+  ToolContext,
+  TimeoutError,
+  successResult,
+  errorResult,
+  ErrorCode,
+  withErrorHandling,
+  withTimeout,
+} from "../types.js";
 
 // Input schema for the load model tool
 export const inputSchema = z.object({
   model: z.string().min(1).describe("The model key to load (e.g., 'llama-3.2-3b-instruct')"),
+  type: z.enum(["llm", "embedding"]).optional().describe("Kind of model to load (default: 'llm')"),
   identifier: z.string().optional().describe("Custom identifier for the loaded model instance"),
-  contextLength: z.number().int().min(1).optional().describe("Context window size in tokens"),
-  evalBatchSize: z.number().int().min(1).optional().describe("Number of tokens to process together in a batch"),
+  ...loadOptionsShape,
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      "Seconds to wait for the load before giving up (default: 120, or timeouts.loadModel from the config file)",
+    ),
+  evict: z
+    .boolean()
+    .optional()
+    .describe(
+      "Unload least recently used, unpinned models first if the load would exceed the memory budget (default: memoryBudget.autoEvict from the config file)",
+    ),
+  backend: backendSchema,
 });
 
 export type LoadModelInput = z.infer<typeof inputSchema>;
 
-// Output data for loaded model
-export interface LoadedModelData {
-  identifier: string;
-  modelKey: string;
-  path: string;
+// Load configuration fields that were applied to the model
+export const loadConfigSchema = inputSchema.pick({
+  contextLength: true,
+  evalBatchSize: true,
+  gpuOffload: true,
+  flashAttention: true,
+  ropeFrequencyBase: true,
+  ropeFrequencyScale: true,
+  kvCacheQuantization: true,
+  keepModelInMemory: true,
+  tryMmap: true,
+  seed: true,
+});
+
+export type LoadConfigData = z.infer<typeof loadConfigSchema>;
+
+// Output schema for a loaded model
+export const outputSchema = z.object({
+  type: z.enum(["llm", "embedding"]),
+  identifier: z.string(),
+  modelKey: z.string(),
+  path: z.string(),
+  config: loadConfigSchema.optional(),
+  ttl: z.number().optional(),
+  idleTtl: z.number().optional(),
+  expiresAt: z.string().optional(),
+  evicted: z.array(evictionCandidateSchema).optional(),
+});
+
+export type LoadedModelData = z.infer<typeof outputSchema>;
+
+/**
+ * Translate the load config inputs into the SDK load config.
+ * Returns the SDK config alongside the fields that were set, or undefined when none were.
+ */
+function buildLoadConfig(input: LoadModelInput): { config: LLMLoadModelConfig; applied: LoadConfigData } | undefined {
+  const config: LLMLoadModelConfig = {};
+  const applied: LoadConfigData = {};
+
+  if (input.contextLength !== undefined) {
+    config.contextLength = applied.contextLength = input.contextLength;
+  }
+  if (input.evalBatchSize !== undefined) {
+    config.evalBatchSize = applied.evalBatchSize = input.evalBatchSize;
+  }
+  if (input.gpuOffload !== undefined) {
+    config.gpu = { ratio: input.gpuOffload };
+    applied.gpuOffload = input.gpuOffload;
+  }
+  if (input.flashAttention !== undefined) {
+    config.flashAttention = applied.flashAttention = input.flashAttention;
+  }
+  if (input.ropeFrequencyBase !== undefined) {
+    config.ropeFrequencyBase = applied.ropeFrequencyBase = input.ropeFrequencyBase;
+  }
+  if (input.ropeFrequencyScale !== undefined) {
+    config.ropeFrequencyScale = applied.ropeFrequencyScale = input.ropeFrequencyScale;
+  }
+  if (input.kvCacheQuantization !== undefined) {
+    config.llamaKCacheQuantizationType = input.kvCacheQuantization;
+    config.llamaVCacheQuantizationType = input.kvCacheQuantization;
+    applied.kvCacheQuantization = input.kvCacheQuantization;
+  }
+  if (input.keepModelInMemory !== undefined) {
+    config.keepModelInMemory = applied.keepModelInMemory = input.keepModelInMemory;
+  }
+  if (input.tryMmap !== undefined) {
+    config.tryMmap = applied.tryMmap = input.tryMmap;
+  }
+  if (input.seed !== undefined) {
+    config.seed = applied.seed = input.seed;
+  }
+
+  return Object.keys(applied).length > 0 ? { config, applied } : undefined;
 }
 
-// Extended timeout for model loading in seconds (can take a while for large models)
-const LOAD_MODEL_TIMEOUT = 120;
+/**
+ * Fill in load options the caller left out from the config file's load defaults.
+ * LLM-only defaults are skipped for embedding models.
+ */
+function withLoadDefaults(input: LoadModelInput, type: "llm" | "embedding"): LoadModelInput {
+  const defaults: Record<string, unknown> = { ...getServerConfig().loadDefaults };
+  if (type === "embedding") {
+    for (const key of LLM_ONLY_CONFIG_KEYS) {
+      delete defaults[key];
+    }
+  }
+
+  const merged: Record<string, unknown> = { ...input };
+  for (const [key, value] of Object.entries(defaults)) {
+    if (merged[key] === undefined) {
+      merged[key] = value;
+    }
+  }
+  return merged as LoadModelInput;
+}
 
 /**
- * Load a model into memory in LM Studio with optional configuration.
+ * Load an LLM or embedding model into memory in LM Studio with optional configuration.
+ * Reports load progress when requested. The load is aborted if the call is cancelled or times out.
  */
-export async function loadModel(input: LoadModelInput): Promise<ToolResult<LoadedModelData>> {
+export async function loadModel(
+  input: LoadModelInput,
+  context: ToolContext = {},
+): Promise<ToolResult<LoadedModelData>> {
+  const type = input.type ?? "llm";
+  const timeoutSeconds = input.timeoutSeconds ?? getTimeout("loadModel");
+
+  if (type === "embedding") {
+    const unsupported = LLM_ONLY_CONFIG_KEYS.filter((key) => input[key] !== undefined);
+    if (unsupported.length > 0) {
+      return errorResult(
+        `Options not supported for embedding models: ${unsupported.join(", ")}`,
+        ErrorCode.INVALID_INPUT,
+      );
+    }
+  }
+  const options = withLoadDefaults(input, type);
+
   return withErrorHandling(
     async () => {
-      const client = getClient();
+      // Make room within the memory budget before loading
+      let evicted: EvictionCandidate[] | undefined;
+      const budget = getServerConfig().memoryBudget;
+      if (budget) {
+        const plan = await withReconnect(
+          (client) =>
+            planEviction(client, { model: input.model, type, budgetBytes: budget.maxBytes, backend: input.backend }),
+          { backend: input.backend, idempotent: true },
+        );
+        // The budget cannot be checked without the model's size, so the load is refused rather than let through
+        if (!plan) {
+          return errorResult(
+            `Model '${input.model}' is not downloaded`,
+            ErrorCode.MODEL_NOT_FOUND,
+            `The memory budget needs the size of a downloaded ${type} model with key '${input.model}'`,
+          );
+        }
+        if (!plan.fits) {
+          const excess = plan.loadedBytes + plan.sizeBytes - plan.budgetBytes;
+          if (!plan.possible) {
+            return errorResult(
+              `Loading model '${input.model}' would exceed the memory budget by ${excess} bytes`,
+              ErrorCode.MEMORY_BUDGET_EXCEEDED,
+              "Unloading every unpinned model would not free enough memory",
+            );
+          }
+          if (!(input.evict ?? budget.autoEvict ?? false)) {
+            return errorResult(
+              `Loading model '${input.model}' would exceed the memory budget by ${excess} bytes`,
+              ErrorCode.MEMORY_BUDGET_EXCEEDED,
+              `Set evict to unload: ${plan.evict.map((candidate) => candidate.identifier).join(", ")}`,
+            );
+          }
+          await withReconnect((client) => evictModels(client, plan.evict, input.backend), { backend: input.backend });
+          evicted = plan.evict;
+        }
+      }
+
+      const controller = new AbortController();
 
       // Build load options
       const opts: {
         identifier?: string;
-        config?: {
-          contextLength?: number;
-          evalBatchSize?: number;
-        };
-      } = {};
+        config?: LLMLoadModelConfig;
+        ttl?: number;
+        signal: AbortSignal;
+        onProgress?: (progress: number) => void;
+      } = { signal: controller.signal };
 
       if (input.identifier) {
         opts.identifier = input.identifier;
       }
 
-      // Build config if any config options are specified
-      if (input.contextLength !== undefined || input.evalBatchSize !== undefined) {
-        opts.config = {};
-        if (input.contextLength !== undefined) {
-          opts.config.contextLength = input.contextLength;
+      const loadConfig = buildLoadConfig(options);
+      if (loadConfig) {
+        opts.config = loadConfig.config;
+      }
+      if (options.ttl !== undefined) {
+        opts.ttl = options.ttl;
+      }
+
+      const onProgress = context.onProgress;
+      if (onProgress) {
+        opts.onProgress = (progress) => {
+          onProgress({ progress, total: 1, message: `Loading model '${input.model}'` });
+        };
+      }
+
+      // Abort the SDK load when the MCP request is cancelled
+      const onAbort = () => controller.abort();
+      context.signal?.addEventListener("abort", onAbort, { once: true });
+      if (context.signal?.aborted) {
+        controller.abort();
+      }
+
+      const loading = withReconnect<{ identifier: string; modelKey: string; path: string }>(
+        (client) =>
+          type === "embedding" ? client.embedding.load(input.model, opts) : client.llm.load(input.model, opts),
+        { backend: input.backend },
+      );
+
+      let model;
+      try {
+        model = await withTimeout(loading, timeoutSeconds, "Load model");
+      } catch (error) {
+        if (error instanceof TimeoutError) {
+          controller.abort();
+          return errorResult(
+            `Loading model '${input.model}' timed out after ${timeoutSeconds}s`,
+            ErrorCode.LOAD_TIMEOUT,
+            error.message,
+          );
         }
-        if (input.evalBatchSize !== undefined) {
-          opts.config.evalBatchSize = input.evalBatchSize;
+        if (controller.signal.aborted) {
+          return errorResult(
+            `Loading model '${input.model}' was cancelled`,
+            ErrorCode.LOAD_CANCELLED,
+            error instanceof Error ? error.message : "Load cancelled",
+          );
         }
+        throw error;
+      } finally {
+        context.signal?.removeEventListener("abort", onAbort);
       }
 
-      // Load the model with extended timeout
-      const model = await withTimeout(client.llm.load(input.model, opts), LOAD_MODEL_TIMEOUT, "Load model");
+      notifyModelsChanged("loaded");
 
-      return successResult(`Model '${input.model}' loaded successfully with identifier '${model.identifier}'`, {
+      const data: LoadedModelData = {
+        type,
         identifier: model.identifier,
         modelKey: model.modelKey,
         path: model.path,
-      });
+      };
+      if (loadConfig) {
+        data.config = loadConfig.applied;
+      }
+      if (options.ttl !== undefined) {
+        data.ttl = options.ttl;
+      }
+      if (options.idleTtl !== undefined) {
+        setIdleTtl(model.identifier, type, options.idleTtl, input.backend);
+        data.idleTtl = options.idleTtl;
+        data.expiresAt = getExpiresAt(model.identifier, input.backend);
+      } else {
+        // An instance unloaded in LM Studio itself may have left an idle TTL under the same identifier
+        clearIdleTtl(model.identifier, input.backend);
+        recordModelUse(model.identifier, input.backend);
+      }
+      if (evicted) {
+        data.evicted = evicted;
+      }
+
+      return successResult(`Model '${input.model}' loaded successfully with identifier '${model.identifier}'`, data);
     },
     `Failed to load model '${input.model}'`,
     ErrorCode.LOAD_FAILED,
@@ -0,0 +1,98 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { getServerConfig } from "../config.js";
+import { recordModelUse } from "../memory.js";
+import { z } from "zod";
+import { loadModel, outputSchema as loadedModelSchema } from "./load-model.js";
+import {
+  ToolResult,
+  ToolContext,
+  successResult,
+  errorResult,
+  ErrorCode,
+  withErrorHandling,
+  withTimeout,
+} from "../types.js";
+
+// Input schema for the load preset tool
+export const inputSchema = z.object({
+  preset: z.string().min(1).describe("Name of the preset to load, as defined in the config file"),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      "Seconds to wait for the load before giving up (default: 120, or timeouts.loadModel from the config file)",
+    ),
+  backend: backendSchema,
+});
+
+export type LoadPresetInput = z.infer<typeof inputSchema>;
+
+// Output schema for a loaded preset
+export const outputSchema = loadedModelSchema.extend({
+  preset: z.string(),
+  alreadyLoaded: z.boolean(),
+});
+
+export type LoadPresetData = z.infer<typeof outputSchema>;
+
+/**
+ * Load a model with a preset's model key, identifier and load config.
+ * Does nothing if an instance with the preset's identifier is already loaded.
+ */
+export async function loadPreset(
+  input: LoadPresetInput,
+  context: ToolContext = {},
+): Promise<ToolResult<LoadPresetData>> {
+  const presets = getServerConfig().presets ?? {};
+  const preset = presets[input.preset];
+  if (!preset) {
+    const available = Object.keys(presets);
+    return errorResult(
+      `Unknown preset '${input.preset}'`,
+      ErrorCode.PRESET_NOT_FOUND,
+      available.length > 0 ? `Available presets: ${available.join(", ")}` : "No presets are configured",
+    );
+  }
+
+  const { model, type = "llm", identifier = input.preset, ...options } = preset;
+
+  return withErrorHandling(
+    async () => {
+      const loadedModels = await withReconnect(
+        (client) => {
+          const listing: Promise<{ identifier: string; modelKey: string; path: string }[]> =
+            type === "embedding" ? client.embedding.listLoaded() : client.llm.listLoaded();
+          return withTimeout(listing, undefined, "List loaded models");
+        },
+        { backend: input.backend, idempotent: true },
+      );
+
+      const existing = loadedModels.find((loaded) => loaded.identifier === identifier);
+      if (existing) {
+        recordModelUse(existing.identifier, input.backend);
+        return successResult(`Preset '${input.preset}' is already loaded as '${identifier}'`, {
+          preset: input.preset,
+          alreadyLoaded: true,
+          type,
+          identifier: existing.identifier,
+          modelKey: existing.modelKey,
+          path: existing.path,
+        });
+      }
+
+      const { data, ...result } = await loadModel(
+        { model, type, identifier, ...options, timeoutSeconds: input.timeoutSeconds, backend: input.backend },
+        context,
+      );
+      if (!data) {
+        return result;
+      }
+      return { ...result, data: { preset: input.preset, alreadyLoaded: false, ...data } };
+    },
+    `Failed to load preset '${input.preset}'`,
+    ErrorCode.LOAD_FAILED,
+  );
+}
@@ -0,0 +1,51 @@
+import { backendSchema, getBackend } from "../backends.js";
+import { pinModel as pin, unpinModel as unpin } from "../memory.js";
+import { z } from "zod";
+import { ToolResult, successResult, withErrorHandling } from "../types.js";
+
+// Input schema for the pin and unpin model tools
+export const inputSchema = z.object({
+  identifier: z.string().min(1).describe("The model instance identifier to pin or unpin"),
+  backend: backendSchema,
+});
+
+export type PinModelInput = z.infer<typeof inputSchema>;
+
+// Output schema for a pin change
+export const outputSchema = z.object({
+  identifier: z.string(),
+  backend: z.string(),
+  pinned: z.boolean(),
+});
+
+export type PinModelData = z.infer<typeof outputSchema>;
+
+/**
+ * Pin a model instance so memory-aware loading never evicts it.
+ * The instance does not need to be loaded yet; pins follow the identifier across reloads.
+ */
+export async function pinModel(input: PinModelInput): Promise<ToolResult<PinModelData>> {
+  return withErrorHandling(async () => {
+    const backend = getBackend(input.backend).name;
+    pin(input.identifier, backend);
+    return successResult(`Model '${input.identifier}' pinned`, { identifier: input.identifier, backend, pinned: true });
+  }, `Failed to pin model '${input.identifier}'`);
+}
+
+/**
+ * Unpin a model instance so memory-aware loading may evict it again.
+ */
+export async function unpinModel(input: PinModelInput): Promise<ToolResult<PinModelData>> {
+  return withErrorHandling(async () => {
+    const backend = getBackend(input.backend).name;
+    const wasPinned = unpin(input.identifier, backend);
+    return successResult(
+      wasPinned ? `Model '${input.identifier}' unpinned` : `Model '${input.identifier}' was not pinned`,
+      {
+        identifier: input.identifier,
+        backend,
+        pinned: false,
+      },
+    );
+  }, `Failed to unpin model '${input.identifier}'`);
+}
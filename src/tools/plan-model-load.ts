@@ -0,0 +1,60 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { getServerConfig } from "../config.js";
+import { planEviction, evictionPlanSchema, type EvictionPlan } from "../memory.js";
+import { z } from "zod";
+import { ToolResult, successResult, errorResult, ErrorCode, withErrorHandling } from "../types.js";
+
+// Input schema for the plan model load tool
+export const inputSchema = z.object({
+  model: z.string().min(1).describe("The model key to plan a load for (e.g., 'llama-3.2-3b-instruct')"),
+  type: z.enum(["llm", "embedding"]).optional().describe("Kind of model to load (default: 'llm')"),
+  backend: backendSchema,
+});
+
+export type PlanModelLoadInput = z.infer<typeof inputSchema>;
+
+// Output schema for the plan model load tool
+export const outputSchema = evictionPlanSchema;
+
+/**
+ * Report whether a model fits in the memory budget and which models loading it would evict,
+ * without unloading or loading anything.
+ */
+export async function planModelLoad(input: PlanModelLoadInput): Promise<ToolResult<EvictionPlan>> {
+  const budget = getServerConfig().memoryBudget;
+  if (!budget) {
+    return errorResult(
+      "No memory budget is configured",
+      ErrorCode.INVALID_INPUT,
+      "Set memoryBudget.maxBytes in the config file",
+    );
+  }
+  const type = input.type ?? "llm";
+
+  return withErrorHandling(async () => {
+    const plan = await withReconnect(
+      (client) =>
+        planEviction(client, { model: input.model, type, budgetBytes: budget.maxBytes, backend: input.backend }),
+      { backend: input.backend, idempotent: true },
+    );
+
+    if (!plan) {
+      return errorResult(
+        `Model '${input.model}' is not downloaded`,
+        ErrorCode.MODEL_NOT_FOUND,
+        `No downloaded ${type} model with key '${input.model}'`,
+      );
+    }
+
+    let message: string;
+    if (plan.fits) {
+      message = `Model '${input.model}' fits in the memory budget`;
+    } else if (plan.possible) {
+      message = `Loading model '${input.model}' would evict ${plan.evict.length} model(s)`;
+    } else {
+      message = `Model '${input.model}' does not fit in the memory budget even after evicting every unpinned model`;
+    }
+    return successResult(message, plan);
+  }, `Failed to plan load of model '${input.model}'`);
+}
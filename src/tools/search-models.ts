@@ -0,0 +1,110 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { z } from "zod";
+import type { ModelSearchResultDownloadOption } from "@lmstudio/sdk";
+import { ToolResult, successResult, withErrorHandling, withTimeout } from "../types.js";
+
+// Model file formats the catalog can be filtered by
+export const modelCompatibilityTypes = [
+  "gguf",
+  "safetensors",
+  "onnx",
+  "ggml",
+  "mlx_placeholder",
+  "torch_safetensors",
+] as const;
+
+// Input schema for the search models tool
+export const inputSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Search term, e.g. 'qwen2.5 coder' (default: LM Studio's recommended models)"),
+  limit: z.number().int().min(1).max(50).optional().describe("Maximum number of models to return"),
+  formats: z
+    .array(z.enum(modelCompatibilityTypes))
+    .min(1)
+    .optional()
+    .describe("Model formats to include (default: formats supported by the installed runtimes)"),
+  backend: backendSchema,
+});
+
+export type SearchModelsInput = z.infer<typeof inputSchema>;
+
+// A downloadable file of a catalog model, usually one quantization
+export const downloadOptionInfoSchema = z.object({
+  name: z.string(),
+  quantization: z.string().optional(),
+  sizeBytes: z.number(),
+  fitEstimation: z.string().optional(),
+  recommended: z.boolean(),
+});
+
+export type DownloadOptionInfo = z.infer<typeof downloadOptionInfoSchema>;
+
+// Output data for a catalog search result
+export const searchResultInfoSchema = z.object({
+  name: z.string(),
+  exactMatch: z.boolean(),
+  staffPick: z.boolean(),
+  downloadOptions: z.array(downloadOptionInfoSchema),
+});
+
+export type SearchResultInfo = z.infer<typeof searchResultInfoSchema>;
+
+// Output schema for the search models tool
+export const outputSchema = z.array(searchResultInfoSchema);
+
+/**
+ * Describe a download option of a catalog model.
+ */
+export function toDownloadOptionInfo(option: ModelSearchResultDownloadOption): DownloadOptionInfo {
+  const info: DownloadOptionInfo = {
+    name: option.name,
+    sizeBytes: option.sizeBytes,
+    recommended: option.isRecommended(),
+  };
+  if (option.quantization !== undefined) {
+    info.quantization = option.quantization;
+  }
+  if (option.fitEstimation !== undefined) {
+    info.fitEstimation = option.fitEstimation;
+  }
+  return info;
+}
+
+/**
+ * Search the LM Studio model catalog, including each result's download options.
+ */
+export async function searchModels(input: SearchModelsInput = {}): Promise<ToolResult<SearchResultInfo[]>> {
+  return withErrorHandling(async () => {
+    const results = await withReconnect(
+      async (client) => {
+        const entries = await withTimeout(
+          client.repository.searchModels({
+            searchTerm: input.query,
+            limit: input.limit,
+            compatibilityTypes: input.formats ? [...input.formats] : undefined,
+          }),
+          undefined,
+          "Search models",
+        );
+        return Promise.all(
+          entries.map(async (entry) => {
+            const options = await withTimeout(entry.getDownloadOptions(), undefined, "Get download options");
+            return {
+              name: entry.name,
+              exactMatch: entry.isExactMatch(),
+              staffPick: entry.isStaffPick(),
+              downloadOptions: options.map(toDownloadOptionInfo),
+            };
+          }),
+        );
+      },
+      { backend: input.backend, idempotent: true },
+    );
+
+    return successResult(`Found ${results.length} model(s) in the catalog`, results);
+  }, "Failed to search models");
+}
@@ -0,0 +1,176 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { recordModelUse, withModelInUse } from "../memory.js";
+import { z } from "zod";
+import {
+  chatMessageSchema,
+  samplingOptionsShape,
+  buildPredictionOpts,
+  withGenerationTimeout,
+  toCompletionStats,
+  completionStatsSchema,
+} from "./chat-completion.js";
+import { getOutputSchema, listOutputSchemaNames } from "../output-schemas.js";
+import { ToolResult, ToolContext, successResult, errorResult, ErrorCode, withErrorHandling } from "../types.js";
+
+// Default number of extra attempts when the reply does not match the schema
+const DEFAULT_MAX_RETRIES = 2;
+
+// Input schema for the structured completion tool
+export const inputSchema = z.object({
+  identifier: z.string().min(1).describe("The loaded model instance identifier to run the prompt against"),
+  messages: z.array(chatMessageSchema).min(1).describe("Conversation history, oldest message first"),
+  jsonSchema: z
+    .record(z.string(), z.unknown())
+    .optional()
+    .describe("JSON Schema the reply must match (use either jsonSchema or schemaName)"),
+  schemaName: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(`Name of a built-in output schema (${listOutputSchemaNames().join(", ")})`),
+  maxRetries: z
+    .number()
+    .int()
+    .min(0)
+    .max(10)
+    .optional()
+    .describe(`Extra attempts when the reply does not match the schema (default: ${DEFAULT_MAX_RETRIES})`),
+  ...samplingOptionsShape,
+  backend: backendSchema,
+});
+
+export type StructuredCompletionInput = z.infer<typeof inputSchema>;
+
+// Output schema for a structured completion
+export const outputSchema = z.object({
+  identifier: z.string(),
+  modelKey: z.string(),
+  output: z.unknown(),
+  attempts: z.number(),
+  stopReason: z.string(),
+  stats: completionStatsSchema,
+});
+
+export type StructuredCompletionData = z.infer<typeof outputSchema>;
+
+/**
+ * Resolve the requested schema into a JSON Schema for LM Studio and a zod schema for validation.
+ * Returns an error message when the request does not name exactly one usable schema.
+ */
+function resolveSchema(
+  input: StructuredCompletionInput,
+): { jsonSchema: Record<string, unknown>; validator: z.ZodType } | { error: string } {
+  if ((input.jsonSchema === undefined) === (input.schemaName === undefined)) {
+    return { error: "Provide exactly one of 'jsonSchema' or 'schemaName'" };
+  }
+
+  if (input.schemaName !== undefined) {
+    const validator = getOutputSchema(input.schemaName);
+    if (!validator) {
+      return { error: `Unknown schema '${input.schemaName}'` };
+    }
+    return { jsonSchema: z.toJSONSchema(validator), validator };
+  }
+
+  const jsonSchema = input.jsonSchema ?? {};
+  try {
+    return { jsonSchema, validator: z.fromJSONSchema(jsonSchema) };
+  } catch (error) {
+    return { error: `Unsupported JSON Schema: ${error instanceof Error ? error.message : "Unknown error"}` };
+  }
+}
+
+/**
+ * Parse a reply as JSON and validate it against the schema.
+ */
+function validateReply(
+  content: string,
+  validator: z.ZodType,
+): { success: true; data: unknown } | { success: false; error: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Reply is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
+    };
+  }
+
+  const result = validator.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    return { success: false, error: issues.join("; ") };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * Run a chat prompt that must produce JSON matching a schema.
+ * LM Studio constrains generation to the schema and the reply is validated before it is returned.
+ * Invalid replies are sent back to the model with the validation errors, up to maxRetries more times.
+ */
+export async function structuredCompletion(
+  input: StructuredCompletionInput,
+  context: ToolContext = {},
+): Promise<ToolResult<StructuredCompletionData>> {
+  const schema = resolveSchema(input);
+  if ("error" in schema) {
+    return errorResult(schema.error, ErrorCode.INVALID_INPUT);
+  }
+
+  const maxAttempts = (input.maxRetries ?? DEFAULT_MAX_RETRIES) + 1;
+
+  return withErrorHandling(async () => {
+    const { opts, controller } = buildPredictionOpts(input, context);
+    const messages = [...input.messages];
+    let lastError = "";
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const result = await withModelInUse(input.identifier, input.backend, () =>
+        withReconnect(
+          (client) =>
+            withGenerationTimeout(
+              client.llm
+                .createDynamicHandle({ identifier: input.identifier })
+                .respond(messages, { ...opts, structured: { type: "json", jsonSchema: schema.jsonSchema } }),
+              controller,
+              "Structured completion",
+            ),
+          { backend: input.backend },
+        ),
+      );
+
+      const validation = validateReply(result.content, schema.validator);
+      if (validation.success) {
+        recordModelUse(result.modelInfo.identifier, input.backend);
+        return successResult(`Generated schema-valid output with '${input.identifier}' in ${attempt} attempt(s)`, {
+          identifier: result.modelInfo.identifier,
+          modelKey: result.modelInfo.modelKey,
+          output: validation.data,
+          attempts: attempt,
+          stopReason: result.stats.stopReason,
+          stats: toCompletionStats(result.stats),
+        });
+      }
+
+      // Show the model its invalid reply and what was wrong with it before retrying
+      lastError = validation.error;
+      messages.push(
+        { role: "assistant", content: result.content },
+        {
+          role: "user",
+          content: `That reply did not match the required JSON schema (${lastError}). Reply again with only JSON that matches the schema.`,
+        },
+      );
+    }
+
+    return errorResult(
+      `Output from model '${input.identifier}' did not match the schema after ${maxAttempts} attempt(s)`,
+      ErrorCode.SCHEMA_VALIDATION_FAILED,
+      lastError,
+    );
+  }, `Failed to generate structured output with model '${input.identifier}'`);
+}
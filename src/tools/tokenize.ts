@@ -0,0 +1,61 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { recordModelUse } from "../memory.js";
+import { z } from "zod";
+import {
+  ToolResult,
+  contextFitSchema,
+  successResult,
+  checkContextFit,
+  withErrorHandling,
+  withTimeout,
+} from "../types.js";
+
+// Input schema for the tokenize tool
+export const inputSchema = z.object({
+  identifier: z.string().min(1).describe("The loaded model instance identifier whose tokenizer to use"),
+  text: z.string().describe("Text to tokenize"),
+  reserveTokens: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Tokens to keep free in the context window, e.g. for the reply (default: 0)"),
+  backend: backendSchema,
+});
+
+export type TokenizeInput = z.infer<typeof inputSchema>;
+
+// Output schema for tokenized text
+export const outputSchema = contextFitSchema.extend({
+  identifier: z.string(),
+  tokens: z.array(z.number()),
+});
+
+export type TokenizeData = z.infer<typeof outputSchema>;
+
+/**
+ * Tokenize text with a loaded model's tokenizer and check it against the model's context window.
+ */
+export async function tokenize(input: TokenizeInput): Promise<ToolResult<TokenizeData>> {
+  return withErrorHandling(async () => {
+    const { tokens, contextLength } = await withReconnect(
+      async (client) => {
+        const handle = client.llm.createDynamicHandle({ identifier: input.identifier });
+        return {
+          tokens: await withTimeout(handle.tokenize(input.text), undefined, "Tokenize"),
+          contextLength: await withTimeout(handle.getContextLength(), undefined, "Get context length"),
+        };
+      },
+      { backend: input.backend, idempotent: true },
+    );
+    const fit = checkContextFit(tokens.length, contextLength, input.reserveTokens);
+
+    recordModelUse(input.identifier, input.backend);
+    return successResult(`Tokenized text into ${tokens.length} token(s) with '${input.identifier}'`, {
+      identifier: input.identifier,
+      tokens,
+      ...fit,
+    });
+  }, `Failed to tokenize text with model '${input.identifier}'`);
+}
@@ -0,0 +1,208 @@
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { recordModelUse, withModelInUse } from "../memory.js";
+import { z } from "zod";
+import type { ChatMessageData, LLMTool, ToolCallRequest, ToolCallRequestError } from "@lmstudio/sdk";
+import {
+  samplingOptionsShape,
+  buildPredictionOpts,
+  withGenerationTimeout,
+  toCompletionStats,
+  completionStatsSchema,
+} from "./chat-completion.js";
+import { ToolResult, ToolContext, successResult, withErrorHandling } from "../types.js";
+
+// Input schema for a function the model may call
+export const toolDefinitionSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-zA-Z0-9_-]{1,64}$/, "Must be 1-64 letters, digits, underscores or hyphens")
+    .describe("Function name the model calls"),
+  description: z.string().optional().describe("What the function does and when to call it"),
+  parameters: z
+    .looseObject({
+      type: z.literal("object"),
+      properties: z.record(z.string(), z.unknown()),
+      required: z.array(z.string()).optional(),
+    })
+    .optional()
+    .describe("JSON Schema of the function's arguments (default: no arguments)"),
+});
+
+// Input schema for a tool call requested by the model in an earlier assistant message
+export const toolCallSchema = z.object({
+  id: z.string().min(1).optional().describe("Tool call ID returned by tool_completion"),
+  name: z.string().min(1).describe("Name of the called function"),
+  arguments: z.record(z.string(), z.unknown()).optional().describe("Arguments of the call"),
+});
+
+// Input schema for a message in a tool-using conversation
+export const toolMessageSchema = z
+  .object({
+    role: z.enum(["system", "user", "assistant", "tool"]).describe("The sender of the message"),
+    content: z.string().describe("Text content of the message, or the result of a tool call for tool messages"),
+    toolCalls: z
+      .array(toolCallSchema)
+      .min(1)
+      .optional()
+      .describe("Tool calls the model requested (assistant messages only)"),
+    toolCallId: z.string().min(1).optional().describe("ID of the tool call this message answers (tool messages only)"),
+  })
+  .refine((message) => message.toolCalls === undefined || message.role === "assistant", {
+    message: "Only assistant messages can carry tool calls",
+    path: ["toolCalls"],
+  })
+  .refine((message) => message.toolCallId === undefined || message.role === "tool", {
+    message: "Only tool messages can carry a tool call ID",
+    path: ["toolCallId"],
+  });
+
+// Input schema for the tool completion tool
+export const inputSchema = z.object({
+  identifier: z.string().min(1).describe("The loaded model instance identifier to run the prompt against"),
+  messages: z
+    .array(toolMessageSchema)
+    .min(1)
+    .describe("Conversation history, oldest message first, including earlier tool calls and their results"),
+  tools: z
+    .array(toolDefinitionSchema)
+    .min(1)
+    .refine((tools) => new Set(tools.map((tool) => tool.name)).size === tools.length, "Tool names must be unique")
+    .describe("Functions the model may call"),
+  toolChoice: z
+    .enum(["auto", "required"])
+    .optional()
+    .describe("Whether the model may reply with text ('auto') or must call a tool ('required') (default: auto)"),
+  ...samplingOptionsShape,
+  backend: backendSchema,
+});
+
+export type ToolCompletionInput = z.infer<typeof inputSchema>;
+
+export type ToolMessage = z.infer<typeof toolMessageSchema>;
+
+// A tool call requested by the model
+export const toolCallInfoSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  arguments: z.record(z.string(), z.unknown()),
+});
+
+export type ToolCallInfo = z.infer<typeof toolCallInfoSchema>;
+
+// A tool call the model started but that could not be parsed
+export const failedToolCallInfoSchema = z.object({
+  error: z.string(),
+  rawContent: z.string().optional(),
+});
+
+export type FailedToolCallInfo = z.infer<typeof failedToolCallInfoSchema>;
+
+// Output schema for a tool completion
+export const outputSchema = z.object({
+  identifier: z.string(),
+  modelKey: z.string(),
+  trainedForToolUse: z.boolean(),
+  content: z.string(),
+  toolCalls: z.array(toolCallInfoSchema),
+  failedToolCalls: z.array(failedToolCallInfoSchema),
+  stopReason: z.string(),
+  stats: completionStatsSchema,
+});
+
+export type ToolCompletionData = z.infer<typeof outputSchema>;
+
+/**
+ * Translate a conversation message into the SDK's chat history format, which can hold tool calls and results.
+ */
+export function toChatMessageData(message: ToolMessage): ChatMessageData {
+  switch (message.role) {
+    case "tool":
+      return {
+        role: "tool",
+        content: [{ type: "toolCallResult", content: message.content, toolCallId: message.toolCallId }],
+      };
+    case "assistant":
+      return {
+        role: "assistant",
+        content: [
+          ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+          ...(message.toolCalls ?? []).map((call) => ({
+            type: "toolCallRequest" as const,
+            toolCallRequest: { id: call.id, type: "function" as const, name: call.name, arguments: call.arguments },
+          })),
+        ],
+      };
+    default:
+      return { role: message.role, content: [{ type: "text", text: message.content }] };
+  }
+}
+
+/**
+ * Translate function definitions into the SDK's tool format.
+ */
+function toLLMTools(tools: ToolCompletionInput["tools"]): LLMTool[] {
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters ?? { type: "object", properties: {} },
+    },
+  }));
+}
+
+/**
+ * Run a chat prompt with function definitions and return the tool calls the model requests.
+ * The calls are not executed; the caller runs them and sends the results back as tool messages.
+ */
+export async function toolCompletion(
+  input: ToolCompletionInput,
+  context: ToolContext = {},
+): Promise<ToolResult<ToolCompletionData>> {
+  return withErrorHandling(async () => {
+    const toolCalls = new Map<number, ToolCallInfo>();
+    const failedToolCalls: FailedToolCallInfo[] = [];
+    const prediction = buildPredictionOpts(input, context);
+    const opts = {
+      ...prediction.opts,
+      rawTools: { type: "toolArray" as const, tools: toLLMTools(input.tools), force: input.toolChoice === "required" },
+      onToolCallRequestEnd: (callId: number, info: { toolCallRequest: ToolCallRequest }) => {
+        const { id, name, arguments: args } = info.toolCallRequest;
+        toolCalls.set(callId, { id, name, arguments: args ?? {} });
+      },
+      onToolCallRequestFailure: (_callId: number, error: ToolCallRequestError) => {
+        failedToolCalls.push({ error: error.message, rawContent: error.rawContent });
+      },
+    };
+
+    const result = await withModelInUse(input.identifier, input.backend, () =>
+      withReconnect(
+        (client) =>
+          withGenerationTimeout(
+            client.llm
+              .createDynamicHandle({ identifier: input.identifier })
+              .respond({ messages: input.messages.map(toChatMessageData) }, opts),
+            prediction.controller,
+            "Tool completion",
+          ),
+        { backend: input.backend },
+      ),
+    );
+
+    // Calls are reported in the order the model started them
+    const calls = [...toolCalls.entries()].sort(([a], [b]) => a - b).map(([, call]) => call);
+
+    recordModelUse(result.modelInfo.identifier, input.backend);
+    return successResult(`Model '${input.identifier}' requested ${calls.length} tool call(s)`, {
+      identifier: result.modelInfo.identifier,
+      modelKey: result.modelInfo.modelKey,
+      trainedForToolUse: result.modelInfo.trainedForToolUse,
+      content: result.content,
+      toolCalls: calls,
+      failedToolCalls,
+      stopReason: result.stats.stopReason,
+      stats: toCompletionStats(result.stats),
+    });
+  }, `Failed to generate tool calls with model '${input.identifier}'`);
+}
@@ -1,10 +1,15 @@
-import { getClient } from "../client.js";
+import { backendSchema } from "../backends.js";
+import { withReconnect } from "../client.js";
+import { forgetModelUse } from "../memory.js";
+import { notifyModelsChanged } from "../model-events.js";
 import { z } from "zod";
 import { ToolResult, successResult, errorResult, ErrorCode, mapErrorCode, withTimeout } from "../types.js";
 
 // Input schema for the unload model tool
 export const inputSchema = z.object({
   identifier: z.string().min(1).describe("The model instance identifier to unload"),
+  type: z.enum(["llm", "embedding"]).optional().describe("Kind of model to unload (default: 'llm')"),
+  backend: backendSchema,
 });
 
 export type UnloadModelInput = z.infer<typeof inputSchema>;
@@ -15,8 +20,15 @@ export type UnloadModelInput = z.infer<typeof inputSchema>;
 export async function unloadModel(input: UnloadModelInput): Promise<ToolResult<void>> {
   // Special handling needed for MODEL_NOT_LOADED to customize error message
   try {
-    const client = getClient();
-    await withTimeout(client.llm.unload(input.identifier), undefined, "Unload model");
+    await withReconnect(
+      (client) => {
+        const namespace = input.type === "embedding" ? client.embedding : client.llm;
+        return withTimeout(namespace.unload(input.identifier), undefined, "Unload model");
+      },
+      { backend: input.backend },
+    );
+    forgetModelUse(input.identifier, input.backend);
+    notifyModelsChanged("loaded");
     return successResult(`Model '${input.identifier}' unloaded successfully`);
   } catch (error) {
     const code = mapErrorCode(error);
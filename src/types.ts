@@ -1,3 +1,7 @@
+import { z } from "zod";
+import { DEFAULT_TIMEOUTS, getTimeout } from "./config.js";
+import { recordTimeout } from "./metrics.js";
+
 /**
  * Standard error codes for tool operations.
  */
@@ -8,6 +12,17 @@ export const ErrorCode = {
   INVALID_INPUT: "INVALID_INPUT",
   LOAD_FAILED: "LOAD_FAILED",
   UNLOAD_FAILED: "UNLOAD_FAILED",
+  LOAD_CANCELLED: "LOAD_CANCELLED",
+  LOAD_TIMEOUT: "LOAD_TIMEOUT",
+  SCHEMA_VALIDATION_FAILED: "SCHEMA_VALIDATION_FAILED",
+  UNAUTHORIZED: "UNAUTHORIZED",
+  FORBIDDEN: "FORBIDDEN",
+  BACKEND_NOT_FOUND: "BACKEND_NOT_FOUND",
+  PRESET_NOT_FOUND: "PRESET_NOT_FOUND",
+  MEMORY_BUDGET_EXCEEDED: "MEMORY_BUDGET_EXCEEDED",
+  DOWNLOAD_FAILED: "DOWNLOAD_FAILED",
+  DOWNLOAD_CANCELLED: "DOWNLOAD_CANCELLED",
+  VISION_NOT_SUPPORTED: "VISION_NOT_SUPPORTED",
   UNKNOWN: "UNKNOWN",
 } as const;
 
@@ -32,6 +47,46 @@ export interface ToolResult<T = unknown> {
   error?: ToolError;
 }
 
+// Output schema of the ToolError shape
+export const toolErrorSchema = z.object({
+  code: z.enum(ErrorCode),
+  message: z.string(),
+});
+
+/**
+ * Output schema of the ToolResult envelope around a tool's data, declared to MCP clients.
+ * Tools without data (e.g. unload_model) leave dataSchema out.
+ */
+export function toolResultSchema(dataSchema?: z.ZodType) {
+  return z.object({
+    success: z.boolean(),
+    message: z.string(),
+    ...(dataSchema ? { data: dataSchema.optional() } : {}),
+    error: toolErrorSchema.optional(),
+  });
+}
+
+/**
+ * A single progress update reported by a tool while it runs.
+ */
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Per-call context handed to tool handlers by the MCP layer.
+ * Both fields are optional so handlers can also be called directly.
+ */
+export interface ToolContext {
+  // Aborted when the MCP request is cancelled
+  signal?: AbortSignal;
+  // Only set when the caller asked for progress notifications
+  onProgress?: (update: ProgressUpdate) => void;
+}
+
 /**
  * Helper to create a successful result.
  */
@@ -61,10 +116,24 @@ export function errorResult(
   };
 }
 
+/**
+ * Error raised when a tool names a backend that is not configured.
+ */
+export class BackendNotFoundError extends Error {
+  constructor(public readonly backend: string) {
+    super(`Unknown backend '${backend}'`);
+    this.name = "BackendNotFoundError";
+  }
+}
+
 /**
  * Map common SDK error messages to error codes.
  */
 export function mapErrorCode(error: unknown): ErrorCode {
+  if (error instanceof BackendNotFoundError) {
+    return ErrorCode.BACKEND_NOT_FOUND;
+  }
+
   const message = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
 
   if (message.includes("not found") || message.includes("no loaded model")) {
@@ -99,26 +168,69 @@ export async function withErrorHandling<T>(
   }
 }
 
+/**
+ * How a token count compares to a model's context window.
+ * A negative remainingTokens is the number of tokens over the limit.
+ */
+export const contextFitSchema = z.object({
+  tokenCount: z.number(),
+  contextLength: z.number(),
+  reservedTokens: z.number(),
+  fitsInContext: z.boolean(),
+  remainingTokens: z.number(),
+});
+
+export type ContextFit = z.infer<typeof contextFitSchema>;
+
+/**
+ * Compare a token count against a context window, keeping reservedTokens free (e.g. for the reply).
+ */
+export function checkContextFit(tokenCount: number, contextLength: number, reservedTokens = 0): ContextFit {
+  const remainingTokens = contextLength - tokenCount - reservedTokens;
+  return {
+    tokenCount,
+    contextLength,
+    reservedTokens,
+    fitsInContext: remainingTokens >= 0,
+    remainingTokens,
+  };
+}
+
 /**
  * Default timeout for SDK operations in seconds.
+ * The config file can override it with `timeouts.default`.
  */
-export const DEFAULT_TIMEOUT = 30;
+export const DEFAULT_TIMEOUT = DEFAULT_TIMEOUTS.default;
+
+/**
+ * Error raised by withTimeout when an operation exceeds its time limit.
+ */
+export class TimeoutError extends Error {
+  constructor(
+    message: string,
+    public readonly timeoutSeconds: number,
+  ) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
 
 /**
  * Wrap a promise with a timeout.
- * Rejects with a timeout error if the operation takes too long.
+ * Rejects with a timeout error if the operation takes too long, and counts the timeout in the metrics.
  * @param promise - The promise to wrap
- * @param timeoutSeconds - Timeout in seconds (default: 30)
+ * @param timeoutSeconds - Timeout in seconds (default: `timeouts.default` from the config file, or 30)
  * @param operationName - Name for error message
  */
 export function withTimeout<T>(
   promise: Promise<T>,
-  timeoutSeconds: number = DEFAULT_TIMEOUT,
+  timeoutSeconds: number = getTimeout("default"),
   operationName = "Operation",
 ): Promise<T> {
   return new Promise((resolve, reject) => {
     const timeoutId = setTimeout(() => {
-      reject(new Error(`${operationName} timed out after ${timeoutSeconds}s`));
+      recordTimeout();
+      reject(new TimeoutError(`${operationName} timed out after ${timeoutSeconds}s`, timeoutSeconds));
     }, timeoutSeconds * 1000);
 
     promise
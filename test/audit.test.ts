@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Mock the client module
+vi.mock("../src/client.js", () => {
+  const getClient = vi.fn();
+  return {
+    getClient,
+    testConnection: vi.fn(),
+    // Run the operation once against the mocked client
+    withReconnect: vi.fn((operation, options) => operation(getClient(options?.backend))),
+  };
+});
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { getClient } from "../src/client.js";
+import { createServer } from "../src/server.js";
+import { setServerConfig } from "../src/config.js";
+import { resetModelUsage } from "../src/memory.js";
+import { getAuditSettings, readAuditEntries, recordAuditEntry } from "../src/audit.js";
+import { getAuditLog } from "../src/tools/get-audit-log.js";
+import { ErrorCode, errorResult, successResult } from "../src/types.js";
+
+const loadedModel = {
+  identifier: "qwen2.5-7b",
+  modelKey: "qwen2.5-7b",
+  path: "/models/qwen",
+  displayName: "Qwen 2.5 7B",
+  sizeBytes: 5000,
+  vision: false,
+  trainedForToolUse: true,
+};
+
+describe("audit log", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetModelUsage();
+    dir = mkdtempSync(join(tmpdir(), "lmstudio-mcp-audit-"));
+    path = join(dir, "logs", "audit.jsonl");
+    setServerConfig({ audit: { path } });
+  });
+
+  afterEach(() => {
+    setServerConfig();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("through the server", () => {
+    let client: Client;
+
+    beforeEach(async () => {
+      vi.mocked(getClient).mockReturnValue({
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([loadedModel]),
+          load: vi.fn().mockResolvedValue(loadedModel),
+          unload: vi.fn().mockRejectedValue(new Error("Model not found")),
+        },
+        embedding: { listLoaded: vi.fn().mockResolvedValue([]) },
+      } as never);
+
+      const server = createServer();
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      client = new Client({ name: "audit-client", version: "2.3.4" });
+      await client.connect(clientTransport);
+    });
+
+    afterEach(async () => {
+      await client.close();
+    });
+
+    it("records mutating tool calls with the client, inputs, outcome and duration", async () => {
+      await client.callTool({ name: "load_model", arguments: { model: "qwen2.5-7b" } });
+      await client.callTool({ name: "list_loaded_models", arguments: {} });
+      await client.callTool({ name: "unload_model", arguments: { identifier: "missing" } });
+
+      const lines = readFileSync(path, "utf8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatchObject({
+        tool: "load_model",
+        client: { name: "audit-client", version: "2.3.4" },
+        input: { model: "qwen2.5-7b" },
+        success: true,
+      });
+      expect(lines[0].durationMs).toBeGreaterThanOrEqual(0);
+      expect(Date.parse(lines[0].timestamp)).not.toBeNaN();
+      expect(lines[1]).toMatchObject({ tool: "unload_model", success: false, errorCode: ErrorCode.MODEL_NOT_LOADED });
+    });
+
+    it("queries entries with get_audit_log", async () => {
+      await client.callTool({ name: "load_model", arguments: { model: "qwen2.5-7b" } });
+      await client.callTool({ name: "unload_model", arguments: { identifier: "missing" } });
+
+      const result = (await client.callTool({
+        name: "get_audit_log",
+        arguments: { success: false },
+      })) as CallToolResult;
+
+      expect(result.isError).toBe(false);
+      expect(result.structuredContent).toMatchObject({
+        success: true,
+        data: [expect.objectContaining({ tool: "unload_model", input: { identifier: "missing" } })],
+      });
+    });
+  });
+
+  it("filters by tool, error code, client and time", async () => {
+    const caller = { client: { name: "desk", version: "1.0.0" }, sessionId: "session-1" };
+    await recordAuditEntry("load_model", { model: "a" }, successResult("Loaded"), caller, 5);
+    await recordAuditEntry(
+      "load_model",
+      { model: "b" },
+      errorResult("Failed", ErrorCode.MEMORY_BUDGET_EXCEEDED),
+      { sessionId: "session-2" },
+      3,
+    );
+    await recordAuditEntry("pin_model", { identifier: "a" }, successResult("Pinned"), caller, 1);
+
+    expect((await getAuditLog({ tool: "load_model" })).data?.map((entry) => entry.input)).toEqual([
+      { model: "b" },
+      { model: "a" },
+    ]);
+    expect((await getAuditLog({ errorCode: ErrorCode.MEMORY_BUDGET_EXCEEDED })).data).toHaveLength(1);
+    expect((await getAuditLog({ clientName: "desk", limit: 1 })).data?.[0].tool).toBe("pin_model");
+    expect((await getAuditLog({ sessionId: "session-2" })).data?.[0].input).toEqual({ model: "b" });
+    expect((await getAuditLog({ since: "2999-01-01T00:00:00Z" })).data).toEqual([]);
+  });
+
+  it("rotates the log by size and reads across rotated files", async () => {
+    setServerConfig({ audit: { path, maxBytes: 300, maxFiles: 2 } });
+
+    for (let index = 0; index < 8; index++) {
+      await recordAuditEntry("load_model", { model: `model-${index}` }, successResult("Loaded"), {}, 1);
+    }
+
+    expect(existsSync(`${path}.1`)).toBe(true);
+    expect(existsSync(`${path}.2`)).toBe(true);
+    expect(existsSync(`${path}.3`)).toBe(false);
+
+    const entries = await readAuditEntries({ limit: 100 });
+    expect(entries[0].input).toEqual({ model: "model-7" });
+    // The oldest entries were dropped with the oldest rotated file
+    expect(entries.length).toBeLessThan(8);
+    expect(entries.map((entry) => entry.input.model)).toEqual(
+      Array.from({ length: entries.length }, (_, i) => `model-${7 - i}`),
+    );
+  });
+
+  it("expands ~ in the configured path", () => {
+    setServerConfig({ audit: { path: "~/logs/audit.jsonl" } });
+
+    expect(getAuditSettings()?.path).toBe(join(homedir(), "logs", "audit.jsonl"));
+  });
+
+  it("writes nothing when the audit log is disabled", async () => {
+    setServerConfig({ audit: { enabled: false, path } });
+
+    await recordAuditEntry("load_model", { model: "a" }, successResult("Loaded"), {}, 1);
+    const result = await getAuditLog();
+
+    expect(existsSync(path)).toBe(false);
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ErrorCode.INVALID_INPUT);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadAuthTokens, authenticate, parseBearerToken, toAuthInfo, isToolAllowed } from "../src/auth.js";
+
+describe("auth", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  function writeTokensFile(content: string): string {
+    dir = mkdtempSync(join(tmpdir(), "lmstudio-mcp-auth-"));
+    const path = join(dir, "tokens.json");
+    writeFileSync(path, content);
+    return path;
+  }
+
+  describe("loadAuthTokens", () => {
+    it("returns no tokens when nothing is configured", () => {
+      expect(loadAuthTokens({})).toEqual([]);
+    });
+
+    it("parses token:scope pairs from MCP_AUTH_TOKENS", () => {
+      expect(loadAuthTokens({ MCP_AUTH_TOKENS: "abc:read, def:write" })).toEqual([
+        { token: "abc", scope: "read", name: "env-1" },
+        { token: "def", scope: "write", name: "env-2" },
+      ]);
+    });
+
+    it("rejects entries without a valid scope", () => {
+      expect(() => loadAuthTokens({ MCP_AUTH_TOKENS: "abc" })).toThrow("Invalid MCP_AUTH_TOKENS entry 1");
+      expect(() => loadAuthTokens({ MCP_AUTH_TOKENS: "abc:admin" })).toThrow("Invalid MCP_AUTH_TOKENS entry 1");
+    });
+
+    it("reads tokens from MCP_AUTH_TOKENS_FILE", () => {
+      const path = writeTokensFile(
+        JSON.stringify([
+          { token: "xyz", scope: "write", name: "ops" },
+          { token: "ro", scope: "read" },
+        ]),
+      );
+
+      expect(loadAuthTokens({ MCP_AUTH_TOKENS_FILE: path })).toEqual([
+        { token: "xyz", scope: "write", name: "ops" },
+        { token: "ro", scope: "read", name: "file-2" },
+      ]);
+    });
+
+    it("reports the invalid key in the tokens file", () => {
+      const path = writeTokensFile(JSON.stringify([{ token: "xyz", scope: "admin" }]));
+
+      expect(() => loadAuthTokens({ MCP_AUTH_TOKENS_FILE: path })).toThrow(/at 0\.scope/);
+    });
+
+    it("reports unreadable tokens files", () => {
+      expect(() => loadAuthTokens({ MCP_AUTH_TOKENS_FILE: "/nonexistent/tokens.json" })).toThrow(
+        "Failed to read auth tokens file",
+      );
+    });
+  });
+
+  describe("authenticate", () => {
+    const tokens = [
+      { token: "abc", scope: "read" as const, name: "reader" },
+      { token: "def", scope: "write" as const, name: "writer" },
+    ];
+
+    it("returns the matching token", () => {
+      expect(authenticate(tokens, "def")?.name).toBe("writer");
+    });
+
+    it("returns undefined for unknown tokens", () => {
+      expect(authenticate(tokens, "abcd")).toBeUndefined();
+    });
+  });
+
+  describe("parseBearerToken", () => {
+    it("extracts bearer tokens", () => {
+      expect(parseBearerToken("Bearer abc123")).toBe("abc123");
+      expect(parseBearerToken("bearer abc123")).toBe("abc123");
+    });
+
+    it("ignores other schemes and missing headers", () => {
+      expect(parseBearerToken("Basic abc123")).toBeUndefined();
+      expect(parseBearerToken(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("isToolAllowed", () => {
+    const reader = toAuthInfo({ token: "abc", scope: "read", name: "reader" });
+    const writer = toAuthInfo({ token: "def", scope: "write", name: "writer" });
+
+    it("allows everything without auth info", () => {
+      expect(isToolAllowed("load_model", undefined)).toBe(true);
+    });
+
+    it("limits read tokens to non-mutating tools", () => {
+      expect(isToolAllowed("list_models", reader)).toBe(true);
+      expect(isToolAllowed("get_model_info", reader)).toBe(true);
+      expect(isToolAllowed("load_model", reader)).toBe(false);
+      expect(isToolAllowed("unload_model", reader)).toBe(false);
+      expect(isToolAllowed("load_preset", reader)).toBe(false);
+      expect(isToolAllowed("ensure_model_loaded", reader)).toBe(false);
+      expect(isToolAllowed("pin_model", reader)).toBe(false);
+      expect(isToolAllowed("unpin_model", reader)).toBe(false);
+      expect(isToolAllowed("download_model", reader)).toBe(false);
+      expect(isToolAllowed("plan_model_load", reader)).toBe(true);
+      expect(isToolAllowed("search_models", reader)).toBe(true);
+      expect(isToolAllowed("list_presets", reader)).toBe(true);
+    });
+
+    it("allows write tokens to call every tool", () => {
+      expect(isToolAllowed("list_models", writer)).toBe(true);
+      expect(isToolAllowed("load_model", writer)).toBe(true);
+    });
+  });
+});
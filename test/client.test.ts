@@ -12,7 +12,21 @@ vi.mock("@lmstudio/sdk", () => ({
   },
 }));
 
-import { getClient, resetClient, testConnection } from "../src/client.js";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getClient,
+  resetClient,
+  testConnection,
+  withReconnect,
+  getConnectionStatus,
+  computeBackoffDelay,
+  MAX_RECONNECT_ATTEMPTS,
+  RECONNECT_MAX_DELAY_MS,
+} from "../src/client.js";
+import { listBackends, getBackend, loadBackends, setBackends } from "../src/backends.js";
+import { BackendNotFoundError } from "../src/types.js";
 
 describe("client", () => {
   beforeEach(() => {
@@ -22,10 +36,13 @@ describe("client", () => {
     delete process.env.LMSTUDIO_BASE_URL;
     delete process.env.LMSTUDIO_HOST;
     delete process.env.LMSTUDIO_PORT;
+    delete process.env.LMSTUDIO_BACKENDS;
+    delete process.env.LMSTUDIO_BACKENDS_FILE;
   });
 
   afterEach(() => {
     resetClient();
+    setBackends();
   });
 
   describe("getClient", () => {
@@ -112,4 +129,184 @@ describe("client", () => {
       expect(client1).not.toBe(client2);
     });
   });
+
+  describe("backends", () => {
+    const baseUrlOf = (client: unknown) => (client as { config: { baseUrl: string } }).config.baseUrl;
+
+    it("falls back to a single default backend", () => {
+      expect(listBackends()).toEqual([{ name: "default", baseUrl: "ws://127.0.0.1:1234" }]);
+    });
+
+    it("reads named backends from LMSTUDIO_BACKENDS", () => {
+      process.env.LMSTUDIO_BACKENDS = "desk=ws://desk:1234, lab=ws://lab:4321";
+
+      expect(listBackends()).toEqual([
+        { name: "desk", baseUrl: "ws://desk:1234" },
+        { name: "lab", baseUrl: "ws://lab:4321" },
+      ]);
+      expect(getBackend().name).toBe("desk");
+    });
+
+    it("reads named backends from LMSTUDIO_BACKENDS_FILE", () => {
+      const dir = mkdtempSync(join(tmpdir(), "backends-"));
+      try {
+        const file = join(dir, "backends.json");
+        writeFileSync(file, JSON.stringify([{ name: "gpu", baseUrl: "ws://gpu:1234" }]));
+        process.env.LMSTUDIO_BACKENDS_FILE = file;
+
+        expect(listBackends()).toEqual([{ name: "gpu", baseUrl: "ws://gpu:1234" }]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("rejects invalid entries and duplicate names", () => {
+      process.env.LMSTUDIO_BACKENDS = "desk";
+      expect(() => listBackends()).toThrow("Invalid LMSTUDIO_BACKENDS entry 1");
+
+      process.env.LMSTUDIO_BACKENDS = "desk=ws://a:1,desk=ws://b:1";
+      expect(() => listBackends()).toThrow("Duplicate backend name 'desk'");
+    });
+
+    it("keeps the backends loaded at startup", () => {
+      process.env.LMSTUDIO_BACKENDS = "desk=ws://desk:1234";
+      loadBackends();
+      process.env.LMSTUDIO_BACKENDS = "lab=ws://lab:1234";
+
+      expect(listBackends()).toEqual([{ name: "desk", baseUrl: "ws://desk:1234" }]);
+      expect(getBackend().name).toBe("desk");
+
+      setBackends();
+      expect(listBackends()).toEqual([{ name: "lab", baseUrl: "ws://lab:1234" }]);
+    });
+
+    it("fails to load an invalid backend list", () => {
+      process.env.LMSTUDIO_BACKENDS = "desk=ws://a:1,desk=ws://b:1";
+
+      expect(() => loadBackends()).toThrow("Duplicate backend name 'desk'");
+    });
+
+    it("keeps one client per backend", () => {
+      process.env.LMSTUDIO_BACKENDS = "desk=ws://desk:1234,lab=ws://lab:1234";
+
+      expect(baseUrlOf(getClient())).toBe("ws://desk:1234");
+      expect(baseUrlOf(getClient("lab"))).toBe("ws://lab:1234");
+      expect(getClient("lab")).toBe(getClient("lab"));
+      expect(getClient("desk")).not.toBe(getClient("lab"));
+    });
+
+    it("throws BackendNotFoundError for unknown backends", () => {
+      expect(() => getClient("nope")).toThrow(BackendNotFoundError);
+    });
+
+    it("reports the backend name from testConnection", async () => {
+      process.env.LMSTUDIO_BACKENDS = "desk=ws://desk:1234,lab=ws://lab:1234";
+      mockListLoaded.mockResolvedValue([]);
+
+      const result = await testConnection(undefined, "lab");
+
+      expect(result).toMatchObject({ backend: "lab", connected: true, baseUrl: "ws://lab:1234" });
+    });
+  });
+
+  describe("connection state", () => {
+    it("starts disconnected and records connecting then connected", async () => {
+      expect(getConnectionStatus().state).toBe("disconnected");
+      mockListLoaded.mockResolvedValue([]);
+
+      const result = await testConnection();
+
+      expect(result.connection.state).toBe("connected");
+      expect(result.connection.lastConnectedAt).toBeDefined();
+      expect(result.connection.history.map((entry) => entry.state)).toEqual(["connecting", "connected"]);
+    });
+
+    it("records disconnected with the error when a health check fails", async () => {
+      mockListLoaded.mockRejectedValue(new Error("ECONNREFUSED"));
+
+      const result = await testConnection();
+
+      expect(result.connection.state).toBe("disconnected");
+      expect(result.connection.lastError).toBe("ECONNREFUSED");
+      expect(result.connection.history.at(-1)).toMatchObject({ state: "disconnected", error: "ECONNREFUSED" });
+    });
+  });
+
+  describe("withReconnect", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("retries idempotent operations on a fresh client after a connection failure", async () => {
+      const clients: unknown[] = [];
+      const operation = vi.fn(async (client: unknown) => {
+        clients.push(client);
+        if (clients.length === 1) {
+          throw new Error("WebSocket connection closed");
+        }
+        return "ok";
+      });
+
+      const pending = withReconnect(operation, { idempotent: true });
+      await vi.runAllTimersAsync();
+
+      await expect(pending).resolves.toBe("ok");
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(clients[0]).not.toBe(clients[1]);
+
+      const status = getConnectionStatus();
+      expect(status.state).toBe("connected");
+      expect(status.reconnectAttempts).toBe(1);
+      expect(status.history.map((entry) => entry.state)).toEqual(["connecting", "degraded", "connected"]);
+    });
+
+    it("gives up after MAX_RECONNECT_ATTEMPTS and marks the backend disconnected", async () => {
+      const operation = vi.fn().mockRejectedValue(new Error("ECONNREFUSED"));
+
+      const pending = withReconnect(operation, { idempotent: true });
+      const assertion = expect(pending).rejects.toThrow("ECONNREFUSED");
+      await vi.runAllTimersAsync();
+      await assertion;
+
+      expect(operation).toHaveBeenCalledTimes(MAX_RECONNECT_ATTEMPTS + 1);
+      expect(getConnectionStatus()).toMatchObject({
+        state: "disconnected",
+        reconnectAttempts: MAX_RECONNECT_ATTEMPTS,
+        lastError: "ECONNREFUSED",
+      });
+    });
+
+    it("does not retry non-idempotent operations but discards the dead client", async () => {
+      const first = getClient();
+      const operation = vi.fn().mockRejectedValue(new Error("ECONNREFUSED"));
+
+      await expect(withReconnect(operation)).rejects.toThrow("ECONNREFUSED");
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(getConnectionStatus().state).toBe("disconnected");
+      expect(getClient()).not.toBe(first);
+    });
+
+    it("does not retry errors unrelated to the connection", async () => {
+      const operation = vi.fn().mockRejectedValue(new Error("Model not found"));
+
+      await expect(withReconnect(operation, { idempotent: true })).rejects.toThrow("Model not found");
+
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("computeBackoffDelay", () => {
+    it("grows exponentially with full jitter and a cap", () => {
+      expect(computeBackoffDelay(0, () => 1)).toBe(250);
+      expect(computeBackoffDelay(2, () => 1)).toBe(1000);
+      expect(computeBackoffDelay(2, () => 0.5)).toBe(500);
+      expect(computeBackoffDelay(10, () => 1)).toBe(RECONNECT_MAX_DELAY_MS);
+      expect(computeBackoffDelay(3, () => 0)).toBe(0);
+    });
+  });
 });
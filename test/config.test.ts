@@ -0,0 +1,241 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  loadConfig,
+  readConfigFile,
+  findConfigFile,
+  getServerConfig,
+  setServerConfig,
+  getTimeout,
+  isToolEnabled,
+  getLogLevel,
+  DEFAULT_TIMEOUTS,
+} from "../src/config.js";
+import { listBackends } from "../src/backends.js";
+
+describe("config", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    setServerConfig();
+    delete process.env.LMSTUDIO_BASE_URL;
+    delete process.env.LMSTUDIO_PORT;
+    delete process.env.LMSTUDIO_HOST;
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  function writeConfigFile(name: string, content: string): string {
+    dir ??= mkdtempSync(join(tmpdir(), "lmstudio-mcp-config-"));
+    const path = join(dir, name);
+    writeFileSync(path, content);
+    return path;
+  }
+
+  describe("readConfigFile", () => {
+    it("reads JSON config files", () => {
+      const path = writeConfigFile(
+        "config.json",
+        JSON.stringify({ baseUrl: "ws://gpu:1234", timeouts: { loadModel: 600 }, logLevel: "debug" }),
+      );
+
+      expect(readConfigFile(path)).toEqual({
+        baseUrl: "ws://gpu:1234",
+        timeouts: { loadModel: 600 },
+        logLevel: "debug",
+      });
+    });
+
+    it("reads YAML config files", () => {
+      const path = writeConfigFile(
+        "config.yaml",
+        [
+          "backends:",
+          "  - name: desk",
+          "    baseUrl: ws://desk:1234",
+          "tools:",
+          "  disabled: [load_model, unload_model]",
+          "loadDefaults:",
+          "  contextLength: 8192",
+          "  gpuOffload: max",
+        ].join("\n"),
+      );
+
+      expect(readConfigFile(path)).toEqual({
+        backends: [{ name: "desk", baseUrl: "ws://desk:1234" }],
+        tools: { disabled: ["load_model", "unload_model"] },
+        loadDefaults: { contextLength: 8192, gpuOffload: "max" },
+      });
+    });
+
+    it("reads presets", () => {
+      const path = writeConfigFile(
+        "config.yaml",
+        [
+          "presets:",
+          "  coder:",
+          "    model: qwen2.5-coder-14b",
+          "    contextLength: 32768",
+          "    gpuOffload: max",
+        ].join("\n"),
+      );
+
+      expect(readConfigFile(path).presets).toEqual({
+        coder: { model: "qwen2.5-coder-14b", contextLength: 32768, gpuOffload: "max" },
+      });
+    });
+
+    it("points at invalid preset keys", () => {
+      const path = writeConfigFile("config.json", JSON.stringify({ presets: { coder: { contextLength: 4096 } } }));
+
+      expect(() => readConfigFile(path)).toThrow(`Invalid config file '${path}' at presets.coder.model`);
+    });
+
+    it("rejects a memory budget that is not a positive integer", () => {
+      const path = writeConfigFile("config.json", JSON.stringify({ memoryBudget: { maxBytes: 0 } }));
+
+      expect(() => readConfigFile(path)).toThrow(`Invalid config file '${path}' at memoryBudget.maxBytes`);
+    });
+
+    it("rejects an audit log that keeps no rotated files", () => {
+      const path = writeConfigFile("config.json", JSON.stringify({ audit: { path: "audit.jsonl", maxFiles: 0 } }));
+
+      expect(() => readConfigFile(path)).toThrow(`Invalid config file '${path}' at audit.maxFiles`);
+    });
+
+    it("treats an empty YAML file as an empty config", () => {
+      expect(readConfigFile(writeConfigFile("config.yml", ""))).toEqual({});
+    });
+
+    it("points at the invalid key", () => {
+      const path = writeConfigFile("config.json", JSON.stringify({ timeouts: { generation: -1 } }));
+
+      expect(() => readConfigFile(path)).toThrow(`Invalid config file '${path}' at timeouts.generation`);
+    });
+
+    it("points at unknown keys", () => {
+      const path = writeConfigFile("config.json", JSON.stringify({ loadDefaults: { contextLenght: 4096 } }));
+
+      expect(() => readConfigFile(path)).toThrow(`Invalid config file '${path}' at loadDefaults.contextLenght`);
+    });
+
+    it("rejects unknown tool names", () => {
+      const path = writeConfigFile("config.json", JSON.stringify({ tools: { enabled: ["health_check", "nope"] } }));
+
+      expect(() => readConfigFile(path)).toThrow(`Invalid config file '${path}' at tools.enabled.1`);
+    });
+
+    it("reports unreadable files", () => {
+      const path = writeConfigFile("config.json", "{ not json");
+
+      expect(() => readConfigFile(path)).toThrow(`Failed to read config file '${path}'`);
+      expect(() => readConfigFile(join(tmpdir(), "missing-lmstudio-mcp.json"))).toThrow("Failed to read config file");
+    });
+  });
+
+  describe("findConfigFile", () => {
+    it("prefers the working directory over the user config directory", () => {
+      dir = mkdtempSync(join(tmpdir(), "lmstudio-mcp-config-"));
+      const cwd = join(dir, "project");
+      const userDir = join(dir, "home", ".config", "lm-studio-mcp");
+      mkdirSync(cwd);
+      mkdirSync(userDir, { recursive: true });
+      writeFileSync(join(userDir, "config.yaml"), "logLevel: warn");
+
+      expect(findConfigFile(cwd, join(dir, "home"))).toBe(join(userDir, "config.yaml"));
+
+      writeFileSync(join(cwd, "lmstudio-mcp.json"), "{}");
+      expect(findConfigFile(cwd, join(dir, "home"))).toBe(join(cwd, "lmstudio-mcp.json"));
+    });
+
+    it("returns undefined when no file exists", () => {
+      dir = mkdtempSync(join(tmpdir(), "lmstudio-mcp-config-"));
+
+      expect(findConfigFile(dir, dir)).toBeUndefined();
+    });
+  });
+
+  describe("loadConfig", () => {
+    it("makes the loaded file the active config", () => {
+      const path = writeConfigFile("config.json", JSON.stringify({ logLevel: "warn" }));
+
+      loadConfig(path, {});
+
+      expect(getServerConfig()).toEqual({ logLevel: "warn" });
+      expect(getLogLevel()).toBe("warn");
+    });
+
+    it("lets MCP_LOG_LEVEL override the file", () => {
+      const path = writeConfigFile("config.json", JSON.stringify({ logLevel: "warn" }));
+
+      loadConfig(path, { MCP_LOG_LEVEL: "debug" });
+
+      expect(getLogLevel()).toBe("debug");
+      expect(() => loadConfig(path, { MCP_LOG_LEVEL: "loud" })).toThrow("Invalid MCP_LOG_LEVEL 'loud'");
+    });
+  });
+
+  describe("getTimeout", () => {
+    it("uses defaults unless the config overrides them", () => {
+      expect(getTimeout("loadModel")).toBe(DEFAULT_TIMEOUTS.loadModel);
+
+      setServerConfig({ timeouts: { loadModel: 600 } });
+
+      expect(getTimeout("loadModel")).toBe(600);
+      expect(getTimeout("generation")).toBe(DEFAULT_TIMEOUTS.generation);
+    });
+  });
+
+  describe("isToolEnabled", () => {
+    it("enables every tool by default", () => {
+      expect(isToolEnabled("load_model")).toBe(true);
+    });
+
+    it("honours enabled and disabled lists", () => {
+      setServerConfig({ tools: { enabled: ["health_check", "load_model"], disabled: ["load_model"] } });
+
+      expect(isToolEnabled("health_check")).toBe(true);
+      expect(isToolEnabled("load_model")).toBe(false);
+      expect(isToolEnabled("list_models")).toBe(false);
+    });
+  });
+
+  describe("backends", () => {
+    it("uses the config file's baseUrl and backends", () => {
+      setServerConfig({ baseUrl: "ws://gpu:1234" });
+      expect(listBackends()).toEqual([{ name: "default", baseUrl: "ws://gpu:1234" }]);
+
+      setServerConfig({ backends: [{ name: "desk", baseUrl: "ws://desk:1234" }] });
+      expect(listBackends()).toEqual([{ name: "desk", baseUrl: "ws://desk:1234" }]);
+    });
+
+    it("lets env vars override the config file's baseUrl", () => {
+      setServerConfig({ baseUrl: "ws://gpu:1234" });
+
+      process.env.LMSTUDIO_PORT = "4321";
+      expect(listBackends()[0].baseUrl).toBe("ws://127.0.0.1:4321");
+
+      process.env.LMSTUDIO_BASE_URL = "ws://other:1234";
+      expect(listBackends()[0].baseUrl).toBe("ws://other:1234");
+    });
+
+    it("lets env vars override the default backend from the config file", () => {
+      setServerConfig({
+        backends: [
+          { name: "desk", baseUrl: "ws://desk:1234" },
+          { name: "lab", baseUrl: "ws://lab:1234" },
+        ],
+      });
+
+      process.env.LMSTUDIO_HOST = "gpu";
+      expect(listBackends()).toEqual([
+        { name: "desk", baseUrl: "ws://gpu:1234" },
+        { name: "lab", baseUrl: "ws://lab:1234" },
+      ]);
+    });
+  });
+});
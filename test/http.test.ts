@@ -0,0 +1,306 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Mock the client module: LM Studio is unreachable, so metrics scrapes never open a real connection
+vi.mock("../src/client.js", () => ({
+  getClient: vi.fn(),
+  testConnection: vi.fn(),
+  getConnectionStatus: vi.fn(() => ({ state: "disconnected", reconnectAttempts: 0, history: [] })),
+  withReconnect: vi.fn().mockRejectedValue(new Error("connect ECONNREFUSED 127.0.0.1:1234")),
+}));
+
+import { startHttpServer, type HttpServerHandle } from "../src/http.js";
+import { createServer } from "../src/server.js";
+import { setServerConfig } from "../src/config.js";
+
+const initializeRequest = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  },
+};
+
+const mcpHeaders = {
+  "Content-Type": "application/json",
+  Accept: "application/json, text/event-stream",
+};
+
+describe("http transport", () => {
+  let handle: HttpServerHandle;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    handle = await startHttpServer({ host: "127.0.0.1", port: 0 }, createServer);
+    baseUrl = `http://127.0.0.1:${(handle.server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it("serves a health endpoint", async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok", sessions: 0 });
+  });
+
+  it("creates a session on initialize", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest),
+    });
+    await response.text();
+
+    expect(response.status).toBe(200);
+    const sessionId = response.headers.get("mcp-session-id");
+    expect(sessionId).toBeTruthy();
+    expect(handle.sessions.has(sessionId as string)).toBe(true);
+  });
+
+  it("routes follow-up requests to the session", async () => {
+    const init = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest),
+    });
+    await init.text();
+    const headers = { ...mcpHeaders, "mcp-session-id": init.headers.get("mcp-session-id") as string };
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain("load_model");
+  });
+
+  it("rejects requests without a session", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: mcpHeaders,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects unknown sessions", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { ...mcpHeaders, "mcp-session-id": "missing" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("rejects invalid JSON", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, { method: "POST", headers: mcpHeaders, body: "{" });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it("returns 404 for other paths", async () => {
+    const response = await fetch(`${baseUrl}/other`);
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("http transport limits", () => {
+  let handle: HttpServerHandle;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    setServerConfig({ timeouts: { sessionIdle: 0.2 } });
+    handle = await startHttpServer({ host: "127.0.0.1", port: 0, maxBodyBytes: 1024 }, createServer);
+    baseUrl = `http://127.0.0.1:${(handle.server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await handle.close();
+    setServerConfig();
+  });
+
+  async function initialize(): Promise<string> {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest),
+    });
+    await response.text();
+    return response.headers.get("mcp-session-id") as string;
+  }
+
+  it("rejects request bodies over the size limit with 413", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: mcpHeaders,
+      body: JSON.stringify({ ...initializeRequest, padding: "x".repeat(2048) }),
+    });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toBe("Payload too large: Request body exceeds 1024 bytes");
+    expect(handle.sessions.size).toBe(0);
+  });
+
+  it("closes sessions that stay idle", async () => {
+    const sessionId = await initialize();
+    expect(handle.sessions.has(sessionId)).toBe(true);
+
+    await vi.waitFor(() => expect(handle.sessions.has(sessionId)).toBe(false), { timeout: 2000 });
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { ...mcpHeaders, "mcp-session-id": sessionId },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it("restarts the idle countdown on every request", async () => {
+    const sessionId = await initialize();
+    const headers = { ...mcpHeaders, "mcp-session-id": sessionId };
+
+    for (let i = 0; i < 3; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 120));
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ jsonrpc: "2.0", id: i + 2, method: "tools/list" }),
+      });
+      await response.text();
+      expect(response.status).toBe(200);
+    }
+    expect(handle.sessions.has(sessionId)).toBe(true);
+  });
+});
+
+describe("http transport with authentication", () => {
+  let handle: HttpServerHandle;
+  let baseUrl: string;
+  let auditDir: string;
+
+  const tokens = [
+    { token: "reader-token", scope: "read" as const, name: "reader" },
+    { token: "writer-token", scope: "write" as const, name: "writer" },
+  ];
+
+  async function initialize(token: string): Promise<Record<string, string>> {
+    const headers = { ...mcpHeaders, Authorization: `Bearer ${token}` };
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(initializeRequest),
+    });
+    await response.text();
+    return { ...headers, "mcp-session-id": response.headers.get("mcp-session-id") as string };
+  }
+
+  beforeEach(async () => {
+    auditDir = mkdtempSync(join(tmpdir(), "lmstudio-mcp-http-"));
+    setServerConfig({ audit: { path: join(auditDir, "audit.jsonl") } });
+    handle = await startHttpServer({ host: "127.0.0.1", port: 0, tokens }, createServer);
+    baseUrl = `http://127.0.0.1:${(handle.server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await handle.close();
+    setServerConfig();
+    rmSync(auditDir, { recursive: true, force: true });
+  });
+
+  it("rejects requests without a bearer token", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toContain("Bearer");
+    expect((await response.json()).error.data.code).toBe("UNAUTHORIZED");
+  });
+
+  it("rejects unknown bearer tokens", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { ...mcpHeaders, Authorization: "Bearer wrong" },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("requires a bearer token for metrics", async () => {
+    const rejected = await fetch(`${baseUrl}/metrics`);
+    const accepted = await fetch(`${baseUrl}/metrics`, { headers: { Authorization: "Bearer reader-token" } });
+
+    expect(rejected.status).toBe(401);
+    expect(accepted.status).toBe(200);
+    expect(await accepted.text()).toContain("# TYPE lmstudio_mcp_tool_calls_total counter");
+  });
+
+  it("keeps the health endpoint public", async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+  });
+
+  it("rejects mutating tools for read-only tokens", async () => {
+    const headers = await initialize("reader-token");
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "unload_model", arguments: { identifier: "my-model" } },
+      }),
+    });
+
+    expect(response.status).toBe(200);
+    const text = await response.text();
+    expect(text).toContain("FORBIDDEN");
+  });
+
+  it("audits rejected calls with the token name and session", async () => {
+    const headers = await initialize("reader-token");
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "load_model", arguments: { model: "qwen2.5-7b" } },
+      }),
+    });
+    await response.text();
+
+    const entry = JSON.parse(readFileSync(join(auditDir, "audit.jsonl"), "utf8").trim());
+    expect(entry).toMatchObject({
+      tool: "load_model",
+      client: { name: "test-client", version: "1.0.0" },
+      sessionId: headers["mcp-session-id"],
+      tokenName: "reader",
+      success: false,
+      errorCode: "FORBIDDEN",
+    });
+  });
+});
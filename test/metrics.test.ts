@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { AddressInfo } from "node:net";
+
+// Mock the client module
+vi.mock("../src/client.js", () => {
+  const getClient = vi.fn();
+  return {
+    getClient,
+    testConnection: vi.fn(),
+    getConnectionStatus: vi.fn(() => ({ state: "connected", reconnectAttempts: 0, history: [] })),
+    // Run the operation once against the mocked client
+    withReconnect: vi.fn((operation, options) => operation(getClient(options?.backend))),
+  };
+});
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { getClient, getConnectionStatus } from "../src/client.js";
+import { createServer } from "../src/server.js";
+import { setServerConfig } from "../src/config.js";
+import { resetModelUsage } from "../src/memory.js";
+import { collectMetrics, startHttpServer, startMetricsServer } from "../src/http.js";
+import { renderMetrics, resetMetrics, runWithToolMetrics } from "../src/metrics.js";
+import { withTimeout } from "../src/types.js";
+
+const loadedModel = {
+  identifier: "qwen2.5-7b",
+  modelKey: "qwen2.5-7b",
+  path: "/models/qwen",
+  displayName: "Qwen 2.5 7B",
+  sizeBytes: 5000,
+  vision: false,
+  trainedForToolUse: true,
+};
+
+const createMockClient = () => ({
+  llm: {
+    listLoaded: vi.fn().mockResolvedValue([loadedModel, { ...loadedModel, identifier: "qwen2.5-7b:2" }]),
+    unload: vi.fn().mockRejectedValue(new Error("Model not found")),
+  },
+  embedding: {
+    listLoaded: vi.fn().mockResolvedValue([{ ...loadedModel, identifier: "nomic-embed", sizeBytes: 300 }]),
+  },
+});
+
+describe("metrics", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetModelUsage();
+    resetMetrics();
+    setServerConfig({ audit: { enabled: false } });
+    vi.mocked(getClient).mockReturnValue(createMockClient() as never);
+  });
+
+  afterEach(() => {
+    setServerConfig();
+  });
+
+  it("counts tool calls with their latency and error codes", async () => {
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+
+    await client.callTool({ name: "list_loaded_models", arguments: {} });
+    await client.callTool({ name: "list_loaded_models", arguments: {} });
+    await client.callTool({ name: "unload_model", arguments: { identifier: "missing" } });
+    await client.close();
+
+    const text = renderMetrics();
+    expect(text).toContain("# TYPE lmstudio_mcp_tool_calls_total counter");
+    expect(text).toContain('lmstudio_mcp_tool_calls_total{tool="list_loaded_models"} 2');
+    expect(text).toContain('lmstudio_mcp_tool_results_total{tool="list_loaded_models",code="OK"} 2');
+    expect(text).toContain('lmstudio_mcp_tool_results_total{tool="unload_model",code="MODEL_NOT_LOADED"} 1');
+    expect(text).toContain('lmstudio_mcp_tool_call_duration_seconds_bucket{tool="unload_model",le="+Inf"} 1');
+    expect(text).toContain('lmstudio_mcp_tool_call_duration_seconds_count{tool="list_loaded_models"} 2');
+  });
+
+  it("attributes timeouts to the tool that ran into them", async () => {
+    const never = new Promise<never>(() => {});
+
+    await expect(runWithToolMetrics("chat_completion", () => withTimeout(never, 0.01, "Chat"))).rejects.toThrow(
+      "Chat timed out",
+    );
+    await expect(withTimeout(never, 0.01, "List loaded models")).rejects.toThrow("timed out");
+
+    const text = renderMetrics();
+    expect(text).toContain('lmstudio_mcp_timeouts_total{tool="chat_completion"} 1');
+    expect(text).toContain('lmstudio_mcp_timeouts_total{tool="none"} 1');
+  });
+
+  it("reports loaded models, loaded bytes and connection state per backend", async () => {
+    const text = await collectMetrics();
+
+    expect(text).toContain('lmstudio_mcp_loaded_models{backend="default",type="llm"} 2');
+    expect(text).toContain('lmstudio_mcp_loaded_models{backend="default",type="embedding"} 1');
+    expect(text).toContain('lmstudio_mcp_loaded_model_bytes{backend="default",type="llm"} 10000');
+    expect(text).toContain('lmstudio_mcp_loaded_model_bytes{backend="default",type="embedding"} 300');
+    expect(text).toContain('lmstudio_mcp_connection_state{backend="default",state="connected"} 1');
+    expect(text).toContain('lmstudio_mcp_connection_state{backend="default",state="disconnected"} 0');
+  });
+
+  it("drops model gauges for backends that cannot be listed", async () => {
+    await collectMetrics();
+    vi.mocked(getClient).mockReturnValue({
+      llm: { listLoaded: vi.fn().mockRejectedValue(new Error("connect ECONNREFUSED")) },
+      embedding: { listLoaded: vi.fn().mockResolvedValue([]) },
+    } as never);
+    vi.mocked(getConnectionStatus).mockReturnValue({ state: "disconnected", reconnectAttempts: 0, history: [] });
+
+    const text = await collectMetrics();
+
+    expect(text).not.toContain('lmstudio_mcp_loaded_models{backend="default"');
+    expect(text).toContain('lmstudio_mcp_connection_state{backend="default",state="disconnected"} 1');
+  });
+
+  it("serves metrics on the HTTP transport and a standalone port", async () => {
+    const http = await startHttpServer({ host: "127.0.0.1", port: 0 }, createServer);
+    const standalone = await startMetricsServer({ host: "127.0.0.1", port: 0 });
+    try {
+      for (const handle of [http, standalone]) {
+        const baseUrl = `http://127.0.0.1:${(handle.server.address() as AddressInfo).port}`;
+        const response = await fetch(`${baseUrl}/metrics`);
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get("content-type")).toContain("text/plain; version=0.0.4");
+        expect(await response.text()).toContain("lmstudio_mcp_loaded_models");
+      }
+
+      const notFound = await fetch(`http://127.0.0.1:${(standalone.server.address() as AddressInfo).port}/mcp`);
+      expect(notFound.status).toBe(404);
+    } finally {
+      await Promise.all([http.close(), standalone.close()]);
+    }
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { parseServerOptions } from "../src/options.js";
+
+describe("parseServerOptions", () => {
+  it("defaults to stdio with local HTTP settings", () => {
+    expect(parseServerOptions([], {})).toEqual({
+      transport: "stdio",
+      http: { host: "127.0.0.1", port: 3000 },
+    });
+  });
+
+  it("reads transport, host and port from env", () => {
+    const options = parseServerOptions([], { MCP_TRANSPORT: "http", MCP_HTTP_HOST: "0.0.0.0", MCP_HTTP_PORT: "8080" });
+
+    expect(options).toEqual({ transport: "http", http: { host: "0.0.0.0", port: 8080 } });
+  });
+
+  it("prefers CLI flags over env", () => {
+    const options = parseServerOptions(["--transport", "http", "--host=10.0.0.1", "--port", "9000"], {
+      MCP_TRANSPORT: "stdio",
+      MCP_HTTP_PORT: "8080",
+    });
+
+    expect(options).toEqual({ transport: "http", http: { host: "10.0.0.1", port: 9000 } });
+  });
+
+  it("reads the config path from --config or MCP_CONFIG", () => {
+    expect(parseServerOptions([], { MCP_CONFIG: "/etc/lmstudio-mcp.yaml" }).configPath).toBe("/etc/lmstudio-mcp.yaml");
+    expect(parseServerOptions(["--config", "./mcp.json"], { MCP_CONFIG: "/etc/lmstudio-mcp.yaml" }).configPath).toBe(
+      "./mcp.json",
+    );
+    expect(parseServerOptions([], {}).configPath).toBeUndefined();
+  });
+
+  it("reads the metrics port from --metrics-port or MCP_METRICS_PORT", () => {
+    expect(parseServerOptions([], { MCP_METRICS_PORT: "9464" }).metricsPort).toBe(9464);
+    expect(parseServerOptions(["--metrics-port=9100"], { MCP_METRICS_PORT: "9464" }).metricsPort).toBe(9100);
+    expect(parseServerOptions([], {}).metricsPort).toBeUndefined();
+    expect(() => parseServerOptions(["--metrics-port", "x"], {})).toThrow("Invalid metrics port 'x'");
+  });
+
+  it("accepts --http as shorthand", () => {
+    expect(parseServerOptions(["--http"], {}).transport).toBe("http");
+  });
+
+  it("rejects unknown transports", () => {
+    expect(() => parseServerOptions(["--transport", "sse"], {})).toThrow("Invalid transport 'sse'");
+  });
+
+  it("rejects invalid ports", () => {
+    expect(() => parseServerOptions([], { MCP_HTTP_PORT: "http" })).toThrow("Invalid HTTP port 'http'");
+    expect(() => parseServerOptions(["--port", "70000"], {})).toThrow("Invalid HTTP port '70000'");
+  });
+
+  it("rejects flags without a value", () => {
+    expect(() => parseServerOptions(["--port"], {})).toThrow("Missing value for --port");
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createToolContext, createFragmentProgressHandler } from "../src/progress.js";
+
+function createExtra(progressToken?: string | number) {
+  return {
+    signal: new AbortController().signal,
+    requestId: 1,
+    _meta: progressToken === undefined ? undefined : { progressToken },
+    sendNotification: vi.fn().mockResolvedValue(undefined),
+    sendRequest: vi.fn(),
+  };
+}
+
+function fragment(content: string, tokensCount = 1) {
+  return { content, tokensCount, containsDrafted: false, reasoningType: "none" as const, isStructural: false };
+}
+
+describe("progress", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createToolContext", () => {
+    it("passes the request signal through", () => {
+      const extra = createExtra();
+
+      const context = createToolContext(extra as never);
+
+      expect(context.signal).toBe(extra.signal);
+    });
+
+    it("omits onProgress without a progress token", () => {
+      const context = createToolContext(createExtra() as never);
+
+      expect(context.onProgress).toBeUndefined();
+    });
+
+    it("sends progress notifications with the request token", () => {
+      const extra = createExtra("token-1");
+
+      const context = createToolContext(extra as never);
+      context.onProgress?.({ progress: 3, total: 10, message: "abc", meta: { tokensPerSecond: 12 } });
+
+      expect(extra.sendNotification).toHaveBeenCalledWith({
+        method: "notifications/progress",
+        params: {
+          progressToken: "token-1",
+          progress: 3,
+          total: 10,
+          message: "abc",
+          _meta: { tokensPerSecond: 12 },
+        },
+      });
+    });
+
+    it("swallows notification failures", async () => {
+      const extra = createExtra(7);
+      extra.sendNotification.mockRejectedValue(new Error("transport closed"));
+
+      const context = createToolContext(extra as never);
+
+      expect(() => context.onProgress?.({ progress: 1 })).not.toThrow();
+      await Promise.resolve();
+    });
+  });
+
+  describe("createFragmentProgressHandler", () => {
+    it("returns undefined when progress was not requested", () => {
+      expect(createFragmentProgressHandler({})).toBeUndefined();
+    });
+
+    it("reports running token count, fragment text and tokens per second", () => {
+      vi.useFakeTimers();
+      const onProgress = vi.fn();
+
+      const handler = createFragmentProgressHandler({ onProgress }, 100);
+      handler?.(fragment("Hel", 1));
+      vi.advanceTimersByTime(500);
+      handler?.(fragment("lo", 1));
+
+      expect(onProgress).toHaveBeenNthCalledWith(1, {
+        progress: 1,
+        total: 100,
+        message: "Hel",
+        meta: { tokensPerSecond: undefined },
+      });
+      expect(onProgress).toHaveBeenNthCalledWith(2, {
+        progress: 2,
+        total: 100,
+        message: "lo",
+        meta: { tokensPerSecond: 4 },
+      });
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock the client module
+vi.mock("../src/client.js", () => {
+  const getClient = vi.fn();
+  return {
+    getClient,
+    testConnection: vi.fn(),
+    // Run the operation once against the mocked client
+    withReconnect: vi.fn((operation, options) => operation(getClient(options?.backend))),
+  };
+});
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { getClient } from "../src/client.js";
+import { createServer } from "../src/server.js";
+import { pinModel, resetModelUsage } from "../src/memory.js";
+import { setServerConfig } from "../src/config.js";
+
+const loadedModel = (identifier: string, sizeBytes: number) => ({
+  identifier,
+  modelKey: `${identifier}-key`,
+  path: `/models/${identifier}`,
+  displayName: identifier,
+  sizeBytes,
+  vision: false,
+  trainedForToolUse: false,
+});
+
+const createMockClient = () => ({
+  system: {
+    listDownloadedModels: vi.fn().mockResolvedValue([
+      {
+        type: "llm",
+        modelKey: "qwen2.5-7b",
+        path: "/models/qwen",
+        displayName: "Qwen 2.5 7B",
+        sizeBytes: 5000,
+        format: "gguf",
+        maxContextLength: 32768,
+        vision: false,
+        trainedForToolUse: true,
+      },
+    ]),
+  },
+  llm: {
+    listLoaded: vi.fn().mockResolvedValue([loadedModel("chat", 4000), loadedModel("coder", 9000)]),
+  },
+  embedding: {
+    listLoaded: vi.fn().mockResolvedValue([]),
+  },
+});
+
+/**
+ * Get the text of a prompt's single message.
+ */
+async function getPromptText(client: Client, name: string, args: Record<string, string>): Promise<string> {
+  const result = await client.getPrompt({ name, arguments: args });
+  expect(result.messages).toHaveLength(1);
+  const content = result.messages[0].content;
+  return content.type === "text" ? content.text : "";
+}
+
+describe("prompts", () => {
+  let client: Client;
+  let mockClient: ReturnType<typeof createMockClient>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    resetModelUsage();
+    mockClient = createMockClient();
+    vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setServerConfig();
+  });
+
+  it("lists the workflow prompts with their arguments", async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual(["pick_model", "free_memory", "benchmark_model"]);
+    expect(prompts[0].arguments).toEqual([
+      expect.objectContaining({ name: "task", required: true }),
+      expect.objectContaining({ name: "backend", required: false }),
+    ]);
+  });
+
+  it("fills pick_model with the loaded and downloaded models", async () => {
+    const text = await getPromptText(client, "pick_model", { task: "summarize contracts" });
+
+    expect(text).toContain("Pick the best LM Studio model for this task: summarize contracts");
+    expect(text).toContain('"identifier": "coder"');
+    expect(text).toContain('"modelKey": "qwen2.5-7b"');
+  });
+
+  it("marks pinned models and models to keep in free_memory", async () => {
+    pinModel("chat");
+    setServerConfig({ memoryBudget: { maxBytes: 10000 } });
+
+    const text = await getPromptText(client, "free_memory", { keep: "coder, other" });
+
+    expect(text).toContain("Never unload pinned models or these models: coder, other.");
+    expect(text).toContain("The memory budget is 10000 bytes per backend.");
+    expect(text).toContain('"pinned": true');
+    expect(mockClient.embedding.listLoaded).toHaveBeenCalled();
+  });
+
+  it("asks benchmark_model to load a model that is not loaded", async () => {
+    const text = await getPromptText(client, "benchmark_model", { model: "qwen2.5-7b" });
+
+    expect(text).toContain("It is not loaded; load it first with ensure_model_loaded");
+    expect(text).toContain("Call chat_completion 3 time(s)");
+    expect(text).toContain('"modelKey": "qwen2.5-7b"');
+  });
+
+  it("uses the loaded instance, prompt and run count in benchmark_model", async () => {
+    const text = await getPromptText(client, "benchmark_model", {
+      model: "coder-key",
+      prompt: "Count to ten.",
+      runs: "5",
+    });
+
+    expect(text).toContain("It is loaded as 'coder'.");
+    expect(text).toContain("Call chat_completion 5 time(s)");
+    expect(text).toContain("Count to ten.");
+  });
+
+  it("rejects a run count that is not a positive whole number", async () => {
+    await expect(client.getPrompt({ name: "benchmark_model", arguments: { model: "x", runs: "0" } })).rejects.toThrow();
+  });
+
+  it("explains missing data when LM Studio cannot be reached", async () => {
+    mockClient.llm.listLoaded.mockRejectedValue(new Error("ECONNREFUSED"));
+
+    const text = await getPromptText(client, "free_memory", {});
+
+    expect(text).toContain("Loaded models: unavailable (Failed to list loaded models: ECONNREFUSED)");
+  });
+});
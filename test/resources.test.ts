@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock the client module
+vi.mock("../src/client.js", () => {
+  const getClient = vi.fn();
+  return {
+    getClient,
+    testConnection: vi.fn(),
+    // Run the operation once against the mocked client
+    withReconnect: vi.fn((operation, options) => operation(getClient(options?.backend))),
+  };
+});
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { getClient } from "../src/client.js";
+import { createServer } from "../src/server.js";
+import { notifyModelsChanged } from "../src/model-events.js";
+import { getLastUsedAt, recordModelUse, resetModelUsage } from "../src/memory.js";
+import { DOWNLOADED_MODELS_URI, LOADED_MODELS_URI, RESOURCE_POLL_INTERVAL_MS, modelUri } from "../src/resources.js";
+
+const loadedModel = (identifier: string) => ({
+  identifier,
+  modelKey: identifier,
+  path: `/models/${identifier}`,
+  displayName: `Display ${identifier}`,
+  sizeBytes: 1000,
+  vision: false,
+  trainedForToolUse: false,
+});
+
+const createMockClient = () => ({
+  system: {
+    listDownloadedModels: vi.fn().mockResolvedValue([
+      {
+        type: "llm",
+        modelKey: "qwen/qwen2.5-7b",
+        path: "/models/qwen",
+        displayName: "Qwen 2.5 7B",
+        sizeBytes: 1000,
+        format: "gguf",
+        maxContextLength: 32768,
+        vision: false,
+        trainedForToolUse: true,
+      },
+    ]),
+  },
+  llm: {
+    listLoaded: vi.fn().mockResolvedValue([loadedModel("qwen/qwen2.5-7b")]),
+    createDynamicHandle: vi.fn().mockReturnValue({
+      getModelInfo: vi.fn().mockResolvedValue({ ...loadedModel("qwen/qwen2.5-7b"), contextLength: 4096 }),
+    }),
+  },
+  embedding: {
+    listLoaded: vi.fn().mockResolvedValue([]),
+  },
+});
+
+describe("resources", () => {
+  let client: Client;
+  let mockClient: ReturnType<typeof createMockClient>;
+  let updates: string[];
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockClient = createMockClient();
+    vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+
+    updates = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updates.push(notification.params.uri);
+    });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    vi.useRealTimers();
+  });
+
+  it("advertises resource subscriptions", () => {
+    expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+  });
+
+  it("lists the model lists and each loaded model", async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      DOWNLOADED_MODELS_URI,
+      LOADED_MODELS_URI,
+      "lmstudio://models/qwen%2Fqwen2.5-7b",
+    ]);
+  });
+
+  it("reads the downloaded and loaded model lists", async () => {
+    const downloaded = await client.readResource({ uri: DOWNLOADED_MODELS_URI });
+    const loaded = await client.readResource({ uri: LOADED_MODELS_URI });
+
+    expect(downloaded.contents[0].mimeType).toBe("application/json");
+    expect(JSON.parse(downloaded.contents[0].text as string)[0]).toMatchObject({
+      modelKey: "qwen/qwen2.5-7b",
+      loaded: true,
+    });
+    expect(JSON.parse(loaded.contents[0].text as string)).toEqual([
+      expect.objectContaining({ backend: "default", type: "llm", identifier: "qwen/qwen2.5-7b" }),
+    ]);
+  });
+
+  it("reads a loaded model by its encoded identifier", async () => {
+    const result = await client.readResource({ uri: modelUri("qwen/qwen2.5-7b") });
+
+    expect(mockClient.llm.createDynamicHandle).toHaveBeenCalledWith({ identifier: "qwen/qwen2.5-7b" });
+    expect(JSON.parse(result.contents[0].text as string)).toMatchObject({
+      identifier: "qwen/qwen2.5-7b",
+      contextLength: 4096,
+    });
+  });
+
+  it("does not count reading a model as a use of it", async () => {
+    resetModelUsage();
+    recordModelUse("qwen/qwen2.5-7b");
+    const lastUsedAt = getLastUsedAt("qwen/qwen2.5-7b");
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await client.readResource({ uri: modelUri("qwen/qwen2.5-7b") });
+
+    expect(getLastUsedAt("qwen/qwen2.5-7b")).toBe(lastUsedAt);
+    resetModelUsage();
+  });
+
+  it("fails reads when LM Studio cannot be reached", async () => {
+    mockClient.llm.listLoaded.mockRejectedValue(new Error("ECONNREFUSED"));
+
+    await expect(client.readResource({ uri: LOADED_MODELS_URI })).rejects.toThrow("ECONNREFUSED");
+  });
+
+  it("notifies subscribers when models are loaded or unloaded", async () => {
+    await client.subscribeResource({ uri: LOADED_MODELS_URI });
+    await client.subscribeResource({ uri: DOWNLOADED_MODELS_URI });
+
+    notifyModelsChanged("loaded");
+
+    await vi.waitFor(() => expect(updates).toEqual([LOADED_MODELS_URI, DOWNLOADED_MODELS_URI]));
+  });
+
+  it("only notifies downloaded list subscribers about downloads", async () => {
+    await client.subscribeResource({ uri: LOADED_MODELS_URI });
+    await client.subscribeResource({ uri: DOWNLOADED_MODELS_URI });
+
+    notifyModelsChanged("downloaded");
+
+    await vi.waitFor(() => expect(updates).toEqual([DOWNLOADED_MODELS_URI]));
+  });
+
+  it("stops notifying after unsubscribing", async () => {
+    await client.subscribeResource({ uri: LOADED_MODELS_URI });
+    await client.unsubscribeResource({ uri: LOADED_MODELS_URI });
+
+    notifyModelsChanged("loaded");
+    await client.listResources();
+
+    expect(updates).toEqual([]);
+  });
+
+  it("polls LM Studio for changes made outside the server", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    await client.subscribeResource({ uri: LOADED_MODELS_URI });
+    await vi.waitFor(() => expect(mockClient.llm.listLoaded).toHaveBeenCalled());
+
+    mockClient.llm.listLoaded.mockResolvedValue([loadedModel("qwen/qwen2.5-7b"), loadedModel("phi-3")]);
+    await vi.advanceTimersByTimeAsync(RESOURCE_POLL_INTERVAL_MS);
+
+    await vi.waitFor(() => expect(updates).toEqual([LOADED_MODELS_URI]));
+  });
+
+  it("does not announce this server's own changes a second time when polling", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    await client.subscribeResource({ uri: LOADED_MODELS_URI });
+    await vi.waitFor(() => expect(mockClient.llm.listLoaded).toHaveBeenCalled());
+
+    // A load through this server changes LM Studio and announces the change itself
+    mockClient.llm.listLoaded.mockResolvedValue([loadedModel("qwen/qwen2.5-7b"), loadedModel("phi-3")]);
+    notifyModelsChanged("loaded");
+    await vi.waitFor(() => expect(updates).toEqual([LOADED_MODELS_URI]));
+
+    const calls = mockClient.llm.listLoaded.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(RESOURCE_POLL_INTERVAL_MS);
+    await vi.waitFor(() => expect(mockClient.llm.listLoaded.mock.calls.length).toBeGreaterThan(calls));
+    await client.listResources();
+
+    expect(updates).toEqual([LOADED_MODELS_URI]);
+  });
+});
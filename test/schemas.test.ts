@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { loadModelInputSchema, unloadModelInputSchema, getModelInfoInputSchema } from "../src/tools/index.js";
+import {
+  loadModelInputSchema,
+  unloadModelInputSchema,
+  getModelInfoInputSchema,
+  chatCompletionInputSchema,
+  embedTextInputSchema,
+  listModelsInputSchema,
+  toolCompletionInputSchema,
+} from "../src/tools/index.js";
 
 describe("input schemas", () => {
   describe("loadModelInputSchema", () => {
@@ -38,6 +46,36 @@ describe("input schemas", () => {
       });
       expect(result.success).toBe(false);
     });
+
+    it("validates gpuOffload ratio and presets", () => {
+      expect(loadModelInputSchema.safeParse({ model: "m", gpuOffload: 0.5 }).success).toBe(true);
+      expect(loadModelInputSchema.safeParse({ model: "m", gpuOffload: "max" }).success).toBe(true);
+      expect(loadModelInputSchema.safeParse({ model: "m", gpuOffload: 1.5 }).success).toBe(false);
+      expect(loadModelInputSchema.safeParse({ model: "m", gpuOffload: "all" }).success).toBe(false);
+    });
+
+    it("rejects unknown kvCacheQuantization", () => {
+      const result = loadModelInputSchema.safeParse({ model: "m", kvCacheQuantization: "q3_k" });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects non-positive RoPE values", () => {
+      expect(loadModelInputSchema.safeParse({ model: "m", ropeFrequencyBase: 0 }).success).toBe(false);
+      expect(loadModelInputSchema.safeParse({ model: "m", ropeFrequencyScale: -1 }).success).toBe(false);
+    });
+
+    it("rejects non-integer seed", () => {
+      const result = loadModelInputSchema.safeParse({ model: "m", seed: 1.5 });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects non-positive timeoutSeconds", () => {
+      const result = loadModelInputSchema.safeParse({
+        model: "llama-3.2-3b",
+        timeoutSeconds: 0,
+      });
+      expect(result.success).toBe(false);
+    });
   });
 
   describe("unloadModelInputSchema", () => {
@@ -63,4 +101,146 @@ describe("input schemas", () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe("chatCompletionInputSchema", () => {
+    it("validates identifier and messages", () => {
+      const result = chatCompletionInputSchema.safeParse({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Hello" }],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects empty messages", () => {
+      const result = chatCompletionInputSchema.safeParse({ identifier: "my-model", messages: [] });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects unknown roles", () => {
+      const result = chatCompletionInputSchema.safeParse({
+        identifier: "my-model",
+        messages: [{ role: "tool", content: "Hello" }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects out of range topP", () => {
+      const result = chatCompletionInputSchema.safeParse({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Hello" }],
+        topP: 1.5,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("accepts base64, MCP image and file images on user messages", () => {
+      const result = chatCompletionInputSchema.safeParse({
+        identifier: "my-model",
+        messages: [
+          {
+            role: "user",
+            content: "What is in these?",
+            images: [
+              { type: "base64", data: "aGVsbG8=" },
+              { type: "image", data: "aGVsbG8=", mimeType: "image/jpeg" },
+              { type: "file", path: "/tmp/screenshot.png" },
+            ],
+          },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects images on non-user messages", () => {
+      const result = chatCompletionInputSchema.safeParse({
+        identifier: "my-model",
+        messages: [{ role: "assistant", content: "Hi", images: [{ type: "base64", data: "aGVsbG8=" }] }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("requires a MIME type for MCP image content", () => {
+      const result = chatCompletionInputSchema.safeParse({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Hi", images: [{ type: "image", data: "aGVsbG8=" }] }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("toolCompletionInputSchema", () => {
+    const tools = [
+      {
+        name: "get_weather",
+        description: "Get the weather for a city",
+        parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+      },
+    ];
+
+    it("accepts a tool-using conversation", () => {
+      const result = toolCompletionInputSchema.safeParse({
+        identifier: "my-model",
+        messages: [
+          { role: "user", content: "Weather in Paris?" },
+          {
+            role: "assistant",
+            content: "",
+            toolCalls: [{ id: "call_1", name: "get_weather", arguments: { city: "Paris" } }],
+          },
+          { role: "tool", content: '{"temperature":18}', toolCallId: "call_1" },
+        ],
+        tools,
+        toolChoice: "auto",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects tool calls on non-assistant messages", () => {
+      const result = toolCompletionInputSchema.safeParse({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Hi", toolCalls: [{ name: "get_weather" }] }],
+        tools,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects duplicate tool names and invalid parameter schemas", () => {
+      const messages = [{ role: "user", content: "Hi" }];
+      expect(
+        toolCompletionInputSchema.safeParse({ identifier: "m", messages, tools: [...tools, ...tools] }).success,
+      ).toBe(false);
+      expect(
+        toolCompletionInputSchema.safeParse({
+          identifier: "m",
+          messages,
+          tools: [{ name: "get_weather", parameters: { type: "string" } }],
+        }).success,
+      ).toBe(false);
+      expect(toolCompletionInputSchema.safeParse({ identifier: "m", messages, tools: [] }).success).toBe(false);
+    });
+  });
+
+  describe("listModelsInputSchema", () => {
+    it("accepts known model types", () => {
+      expect(listModelsInputSchema.safeParse({}).success).toBe(true);
+      expect(listModelsInputSchema.safeParse({ type: "embedding" }).success).toBe(true);
+      expect(listModelsInputSchema.safeParse({ type: "all" }).success).toBe(true);
+    });
+
+    it("rejects unknown model types", () => {
+      expect(listModelsInputSchema.safeParse({ type: "vision" }).success).toBe(false);
+    });
+  });
+
+  describe("embedTextInputSchema", () => {
+    it("validates identifier and texts", () => {
+      const result = embedTextInputSchema.safeParse({ identifier: "nomic-embed", texts: ["hello"] });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects empty texts", () => {
+      const result = embedTextInputSchema.safeParse({ identifier: "nomic-embed", texts: [] });
+      expect(result.success).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock the client module
+vi.mock("../src/client.js", () => {
+  const getClient = vi.fn();
+  return {
+    getClient,
+    testConnection: vi.fn(),
+    // Run the operation once against the mocked client
+    withReconnect: vi.fn((operation, options) => operation(getClient(options?.backend))),
+  };
+});
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { getClient } from "../src/client.js";
+import { createServer } from "../src/server.js";
+import { resetModelUsage } from "../src/memory.js";
+import { setServerConfig } from "../src/config.js";
+
+const loadedModel = {
+  identifier: "qwen2.5-7b",
+  modelKey: "qwen2.5-7b",
+  path: "/models/qwen",
+  displayName: "Qwen 2.5 7B",
+  sizeBytes: 5000,
+  vision: false,
+  trainedForToolUse: true,
+};
+
+const createMockClient = () => ({
+  llm: {
+    listLoaded: vi.fn().mockResolvedValue([loadedModel]),
+    load: vi.fn().mockResolvedValue(loadedModel),
+    createDynamicHandle: vi.fn().mockReturnValue({
+      getModelInfo: vi.fn().mockResolvedValue({ ...loadedModel, contextLength: 4096 }),
+      respond: vi.fn().mockResolvedValue({
+        content: "Hello!",
+        modelInfo: loadedModel,
+        stats: { stopReason: "eosFound", predictedTokensCount: 3, tokensPerSecond: 42 },
+      }),
+    }),
+  },
+  embedding: {
+    listLoaded: vi.fn().mockResolvedValue([]),
+  },
+});
+
+describe("tool results", () => {
+  let client: Client;
+  let mockClient: ReturnType<typeof createMockClient>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    resetModelUsage();
+    setServerConfig({ audit: { enabled: false } });
+    mockClient = createMockClient();
+    vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setServerConfig();
+  });
+
+  it("declares the result envelope as every tool's output schema", async () => {
+    const { tools } = await client.listTools();
+
+    for (const tool of tools) {
+      expect(tool.outputSchema?.properties).toHaveProperty("success");
+      expect(tool.outputSchema?.properties).toHaveProperty("error");
+    }
+
+    const listLoaded = tools.find((tool) => tool.name === "list_loaded_models");
+    expect(listLoaded?.outputSchema?.properties?.data).toMatchObject({
+      type: "array",
+      items: { type: "object", properties: expect.objectContaining({ identifier: { type: "string" } }) },
+    });
+
+    // unload_model returns no data
+    const unload = tools.find((tool) => tool.name === "unload_model");
+    expect(unload?.outputSchema?.properties).not.toHaveProperty("data");
+  });
+
+  it("returns structured content with a text fallback", async () => {
+    const result = (await client.callTool({ name: "list_loaded_models", arguments: {} })) as CallToolResult;
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toMatchObject({
+      success: true,
+      data: [expect.objectContaining({ backend: "default", identifier: "qwen2.5-7b" })],
+    });
+    expect(result.content[0].type === "text" && JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+  });
+
+  it("returns data that matches the declared schemas of generation and load tools", async () => {
+    const chat = (await client.callTool({
+      name: "chat_completion",
+      arguments: { identifier: "qwen2.5-7b", messages: [{ role: "user", content: "Hi" }] },
+    })) as CallToolResult;
+    const load = (await client.callTool({
+      name: "load_model",
+      arguments: { model: "qwen2.5-7b", contextLength: 4096, gpuOffload: "max" },
+    })) as CallToolResult;
+
+    expect(chat.structuredContent).toMatchObject({ success: true, data: { content: "Hello!" } });
+    expect(load.structuredContent).toMatchObject({
+      success: true,
+      data: { identifier: "qwen2.5-7b", config: { contextLength: 4096, gpuOffload: "max" } },
+    });
+  });
+
+  it("marks failed results with isError", async () => {
+    mockClient.llm.createDynamicHandle.mockReturnValue({
+      getModelInfo: vi.fn().mockRejectedValue(new Error("Model not found")),
+    } as never);
+
+    const result = (await client.callTool({
+      name: "get_model_info",
+      arguments: { identifier: "missing" },
+    })) as CallToolResult;
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({
+      success: false,
+      error: { code: "MODEL_NOT_LOADED", message: "Model not found" },
+    });
+  });
+});
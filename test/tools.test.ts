@@ -1,10 +1,19 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { ToolCallRequestError, type LLMRespondOpts } from "@lmstudio/sdk";
 
 // Mock the client module
-vi.mock("../src/client.js", () => ({
-  getClient: vi.fn(),
-  testConnection: vi.fn(),
-}));
+vi.mock("../src/client.js", () => {
+  const getClient = vi.fn();
+  return {
+    getClient,
+    testConnection: vi.fn(),
+    // Run the operation once against the mocked client
+    withReconnect: vi.fn((operation, options) => operation(getClient(options?.backend))),
+  };
+});
 
 import { getClient, testConnection } from "../src/client.js";
 import { listModels } from "../src/tools/list-models.js";
@@ -13,11 +22,29 @@ import { loadModel } from "../src/tools/load-model.js";
 import { unloadModel } from "../src/tools/unload-model.js";
 import { getModelInfo } from "../src/tools/get-model-info.js";
 import { healthCheck } from "../src/tools/health-check.js";
-import { ErrorCode } from "../src/types.js";
+import { chatCompletion } from "../src/tools/chat-completion.js";
+import { embedText } from "../src/tools/embed-text.js";
+import { tokenize } from "../src/tools/tokenize.js";
+import { countTokens } from "../src/tools/count-tokens.js";
+import { structuredCompletion } from "../src/tools/structured-completion.js";
+import { toolCompletion } from "../src/tools/tool-completion.js";
+import { listBackends } from "../src/tools/list-backends.js";
+import { listPresets } from "../src/tools/list-presets.js";
+import { loadPreset } from "../src/tools/load-preset.js";
+import { ensureModelLoaded } from "../src/tools/ensure-model-loaded.js";
+import { planModelLoad } from "../src/tools/plan-model-load.js";
+import { pinModel, unpinModel } from "../src/tools/pin-model.js";
+import { searchModels } from "../src/tools/search-models.js";
+import { downloadModel } from "../src/tools/download-model.js";
+import { recordModelUse, resetModelUsage, getLastUsedAt, getExpiresAt, isPinned } from "../src/memory.js";
+import { ErrorCode, BackendNotFoundError } from "../src/types.js";
+import { setServerConfig } from "../src/config.js";
+import { allowAnyImageFile } from "../src/images.js";
 
 describe("tool handlers", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.useRealTimers();
   });
 
   describe("listModels", () => {
@@ -37,6 +64,9 @@ describe("tool handlers", () => {
         system: {
           listDownloadedModels: vi.fn().mockResolvedValue(mockModels),
         },
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+        },
       };
       vi.mocked(getClient).mockReturnValue(mockClient as never);
 
@@ -48,11 +78,34 @@ describe("tool handlers", () => {
       expect(result.data?.[0].quantization).toBe("Q4_K_M");
     });
 
+    it("filters by model type", async () => {
+      const mockClient = {
+        system: {
+          listDownloadedModels: vi.fn().mockResolvedValue([]),
+        },
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      await listModels({});
+      await listModels({ type: "embedding" });
+      await listModels({ type: "all" });
+
+      expect(mockClient.system.listDownloadedModels).toHaveBeenNthCalledWith(1, "llm");
+      expect(mockClient.system.listDownloadedModels).toHaveBeenNthCalledWith(2, "embedding");
+      expect(mockClient.system.listDownloadedModels).toHaveBeenNthCalledWith(3);
+    });
+
     it("returns error on connection failure", async () => {
       const mockClient = {
         system: {
           listDownloadedModels: vi.fn().mockRejectedValue(new Error("ECONNREFUSED")),
         },
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+        },
       };
       vi.mocked(getClient).mockReturnValue(mockClient as never);
 
@@ -61,6 +114,110 @@ describe("tool handlers", () => {
       expect(result.success).toBe(false);
       expect(result.error?.code).toBe(ErrorCode.CONNECTION_FAILED);
     });
+    describe("metadata, filters and pagination", () => {
+      const model = (modelKey: string, overrides: Record<string, unknown> = {}) => ({
+        type: "llm",
+        modelKey,
+        path: `/models/${modelKey}`,
+        displayName: modelKey,
+        sizeBytes: 1000,
+        format: "gguf",
+        maxContextLength: 4096,
+        vision: false,
+        trainedForToolUse: false,
+        ...overrides,
+      });
+
+      const createClient = () => ({
+        system: {
+          listDownloadedModels: vi.fn().mockImplementation(async (kind?: string) =>
+            [
+              model("qwen2.5-7b", { architecture: "qwen2", sizeBytes: 5000, trainedForToolUse: true }),
+              model("llava-13b", { architecture: "llama", sizeBytes: 9000, vision: true, maxContextLength: 2048 }),
+              model("llama-3.2-3b", {
+                architecture: "llama",
+                sizeBytes: 2000,
+                paramsString: "3B",
+                format: "safetensors",
+              }),
+              model("nomic-embed", { type: "embedding", sizeBytes: 100 }),
+            ].filter((entry) => kind === undefined || entry.type === kind),
+          ),
+        },
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([{ modelKey: "llama-3.2-3b" }]),
+        },
+        embedding: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+        },
+      });
+
+      it("reports parameters, format, context length, capabilities and whether the model is loaded", async () => {
+        vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+        const result = await listModels({ type: "all", name: "LLAMA-3" });
+
+        expect(result.data).toEqual([
+          {
+            type: "llm",
+            modelKey: "llama-3.2-3b",
+            path: "/models/llama-3.2-3b",
+            displayName: "llama-3.2-3b",
+            sizeBytes: 2000,
+            architecture: "llama",
+            quantization: undefined,
+            parameters: "3B",
+            format: "safetensors",
+            maxContextLength: 4096,
+            vision: false,
+            trainedForToolUse: false,
+            loaded: true,
+          },
+        ]);
+      });
+
+      it("never reports capabilities for embedding models", async () => {
+        const mockClient = createClient();
+        mockClient.system.listDownloadedModels.mockResolvedValue([
+          model("nomic-embed", { type: "embedding", vision: true }),
+        ]);
+        vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+        const result = await listModels({ type: "embedding" });
+
+        expect(result.data?.[0].vision).toBe(false);
+        expect(result.data?.[0].loaded).toBe(false);
+        expect(mockClient.llm.listLoaded).not.toHaveBeenCalled();
+      });
+
+      it("filters by architecture, size and capability", async () => {
+        vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+        const llama = await listModels({ architecture: "Llama", maxSizeBytes: 5000 });
+        const tools = await listModels({ capabilities: ["toolUse"] });
+        const visionAndTools = await listModels({ capabilities: ["vision", "toolUse"] });
+
+        expect(llama.data?.map((entry) => entry.modelKey)).toEqual(["llama-3.2-3b"]);
+        expect(tools.data?.map((entry) => entry.modelKey)).toEqual(["qwen2.5-7b"]);
+        expect(visionAndTools.data).toEqual([]);
+      });
+
+      it("sorts and paginates", async () => {
+        vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+        const bySize = await listModels({ type: "all", sortBy: "sizeBytes", sortOrder: "desc" });
+        const page = await listModels({ sortBy: "modelKey", limit: 2, offset: 1 });
+
+        expect(bySize.data?.map((entry) => entry.modelKey)).toEqual([
+          "llava-13b",
+          "qwen2.5-7b",
+          "llama-3.2-3b",
+          "nomic-embed",
+        ]);
+        expect(page.data?.map((entry) => entry.modelKey)).toEqual(["llava-13b", "qwen2.5-7b"]);
+        expect(page.message).toBe("Found 3 downloaded model(s), showing 2 from offset 1");
+      });
+    });
   });
 
   describe("listLoadedModels", () => {
@@ -90,6 +247,128 @@ describe("tool handlers", () => {
       expect(result.data).toHaveLength(1);
       expect(result.data?.[0].identifier).toBe("model-1");
     });
+
+    it("includes embedding models when type is all", async () => {
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+        },
+        embedding: {
+          listLoaded: vi.fn().mockResolvedValue([
+            {
+              identifier: "nomic-embed",
+              modelKey: "nomic-embed-text-v1.5",
+              path: "/models/nomic",
+              displayName: "Nomic Embed",
+              sizeBytes: 500,
+            },
+          ]),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await listLoadedModels({ type: "all" });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([
+        {
+          backend: "default",
+          type: "embedding",
+          identifier: "nomic-embed",
+          modelKey: "nomic-embed-text-v1.5",
+          path: "/models/nomic",
+          displayName: "Nomic Embed",
+          sizeBytes: 500,
+          vision: false,
+          trainedForToolUse: false,
+        },
+      ]);
+    });
+
+    describe("with multiple backends", () => {
+      beforeEach(() => {
+        process.env.LMSTUDIO_BACKENDS = "desk=ws://desk:1234,lab=ws://lab:1234";
+      });
+
+      afterEach(() => {
+        delete process.env.LMSTUDIO_BACKENDS;
+      });
+
+      const loadedOn = (identifier: string) => ({
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([
+            {
+              identifier,
+              modelKey: identifier,
+              path: `/models/${identifier}`,
+              displayName: identifier,
+              sizeBytes: 100,
+              vision: false,
+              trainedForToolUse: false,
+            },
+          ]),
+        },
+      });
+
+      it("merges models from every backend tagged by backend", async () => {
+        const clients: Record<string, unknown> = { desk: loadedOn("model-a"), lab: loadedOn("model-b") };
+        vi.mocked(getClient).mockImplementation((backend) => clients[backend as string] as never);
+
+        const result = await listLoadedModels({});
+
+        expect(result.success).toBe(true);
+        expect(result.data?.map((model) => [model.backend, model.identifier])).toEqual([
+          ["desk", "model-a"],
+          ["lab", "model-b"],
+        ]);
+        expect(result.message).toBe("Found 2 loaded model(s) across 2 backend(s)");
+      });
+
+      it("skips unreachable backends and names them", async () => {
+        const unreachable = { llm: { listLoaded: vi.fn().mockRejectedValue(new Error("ECONNREFUSED")) } };
+        const clients: Record<string, unknown> = { desk: loadedOn("model-a"), lab: unreachable };
+        vi.mocked(getClient).mockImplementation((backend) => clients[backend as string] as never);
+
+        const result = await listLoadedModels({});
+
+        expect(result.success).toBe(true);
+        expect(result.data).toHaveLength(1);
+        expect(result.message).toContain("unreachable: lab");
+      });
+
+      it("returns CONNECTION_FAILED when no backend is reachable", async () => {
+        const unreachable = { llm: { listLoaded: vi.fn().mockRejectedValue(new Error("ECONNREFUSED")) } };
+        vi.mocked(getClient).mockReturnValue(unreachable as never);
+
+        const result = await listLoadedModels({});
+
+        expect(result.success).toBe(false);
+        expect(result.error?.code).toBe(ErrorCode.CONNECTION_FAILED);
+      });
+
+      it("queries only the named backend", async () => {
+        vi.mocked(getClient).mockReturnValue(loadedOn("model-b") as never);
+
+        const result = await listLoadedModels({ backend: "lab" });
+
+        expect(result.success).toBe(true);
+        expect(getClient).toHaveBeenCalledTimes(1);
+        expect(getClient).toHaveBeenCalledWith("lab");
+        expect(result.data?.[0].backend).toBe("lab");
+      });
+    });
+
+    it("returns BACKEND_NOT_FOUND for an unknown backend", async () => {
+      vi.mocked(getClient).mockImplementation(() => {
+        throw new BackendNotFoundError("nope");
+      });
+
+      const result = await listLoadedModels({ backend: "nope" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.BACKEND_NOT_FOUND);
+      expect(result.error?.message).toBe("Unknown backend 'nope'");
+    });
   });
 
   describe("loadModel", () => {
@@ -111,7 +390,7 @@ describe("tool handlers", () => {
 
       expect(result.success).toBe(true);
       expect(result.data?.identifier).toBe("my-model");
-      expect(mockClient.llm.load).toHaveBeenCalledWith("llama-3.2-3b", {});
+      expect(mockClient.llm.load).toHaveBeenCalledWith("llama-3.2-3b", { signal: expect.any(AbortSignal) });
     });
 
     it("passes options to SDK", async () => {
@@ -142,6 +421,156 @@ describe("tool handlers", () => {
           contextLength: 4096,
           evalBatchSize: 512,
         },
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it("passes full load config to SDK and echoes it back", async () => {
+      const mockModel = {
+        identifier: "tuned",
+        modelKey: "llama-3.2-3b",
+        path: "/models/llama-3.2-3b",
+      };
+
+      const mockClient = {
+        llm: {
+          load: vi.fn().mockResolvedValue(mockModel),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadModel({
+        model: "llama-3.2-3b",
+        contextLength: 32768,
+        gpuOffload: "max",
+        flashAttention: true,
+        ropeFrequencyBase: 10000,
+        ropeFrequencyScale: 0.5,
+        kvCacheQuantization: "q8_0",
+        keepModelInMemory: false,
+        tryMmap: true,
+        seed: 42,
+        ttl: 600,
+      });
+
+      expect(mockClient.llm.load).toHaveBeenCalledWith("llama-3.2-3b", {
+        config: {
+          contextLength: 32768,
+          gpu: { ratio: "max" },
+          flashAttention: true,
+          ropeFrequencyBase: 10000,
+          ropeFrequencyScale: 0.5,
+          llamaKCacheQuantizationType: "q8_0",
+          llamaVCacheQuantizationType: "q8_0",
+          keepModelInMemory: false,
+          tryMmap: true,
+          seed: 42,
+        },
+        ttl: 600,
+        signal: expect.any(AbortSignal),
+      });
+      expect(result.data?.config).toEqual({
+        contextLength: 32768,
+        gpuOffload: "max",
+        flashAttention: true,
+        ropeFrequencyBase: 10000,
+        ropeFrequencyScale: 0.5,
+        kvCacheQuantization: "q8_0",
+        keepModelInMemory: false,
+        tryMmap: true,
+        seed: 42,
+      });
+      expect(result.data?.ttl).toBe(600);
+    });
+
+    it("loads embedding models through the embedding namespace", async () => {
+      const mockClient = {
+        llm: {
+          load: vi.fn(),
+        },
+        embedding: {
+          load: vi
+            .fn()
+            .mockResolvedValue({ identifier: "nomic-embed", modelKey: "nomic-embed", path: "/models/nomic" }),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadModel({ model: "nomic-embed", type: "embedding", contextLength: 2048 });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.type).toBe("embedding");
+      expect(mockClient.llm.load).not.toHaveBeenCalled();
+      expect(mockClient.embedding.load).toHaveBeenCalledWith("nomic-embed", {
+        config: { contextLength: 2048 },
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it("rejects LLM-only options for embedding models", async () => {
+      const result = await loadModel({ model: "nomic-embed", type: "embedding", flashAttention: true, seed: 1 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.INVALID_INPUT);
+      expect(result.message).toBe("Options not supported for embedding models: flashAttention, seed");
+      expect(getClient).not.toHaveBeenCalled();
+    });
+
+    describe("with load defaults from the config file", () => {
+      afterEach(() => {
+        setServerConfig();
+      });
+
+      it("fills in options the caller left out", async () => {
+        setServerConfig({ loadDefaults: { contextLength: 8192, flashAttention: true, ttl: 600 } });
+        const mockClient = {
+          llm: {
+            load: vi.fn().mockResolvedValue({ identifier: "m", modelKey: "m", path: "/models/m" }),
+          },
+        };
+        vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+        const result = await loadModel({ model: "m", contextLength: 4096 });
+
+        expect(mockClient.llm.load).toHaveBeenCalledWith("m", {
+          config: { contextLength: 4096, flashAttention: true },
+          ttl: 600,
+          signal: expect.any(AbortSignal),
+        });
+        expect(result.data?.config).toEqual({ contextLength: 4096, flashAttention: true });
+        expect(result.data?.ttl).toBe(600);
+      });
+
+      it("skips LLM-only defaults for embedding models", async () => {
+        setServerConfig({ loadDefaults: { contextLength: 2048, flashAttention: true, seed: 1 } });
+        const mockClient = {
+          embedding: {
+            load: vi.fn().mockResolvedValue({ identifier: "e", modelKey: "e", path: "/models/e" }),
+          },
+        };
+        vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+        const result = await loadModel({ model: "e", type: "embedding" });
+
+        expect(result.success).toBe(true);
+        expect(mockClient.embedding.load).toHaveBeenCalledWith("e", {
+          config: { contextLength: 2048 },
+          signal: expect.any(AbortSignal),
+        });
+      });
+
+      it("uses the configured load timeout", async () => {
+        vi.useFakeTimers();
+        setServerConfig({ timeouts: { loadModel: 5 } });
+        const mockClient = { llm: { load: vi.fn().mockReturnValue(new Promise(() => {})) } };
+        vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+        const pending = loadModel({ model: "m" });
+        await vi.advanceTimersByTimeAsync(5000);
+        const result = await pending;
+
+        expect(result.error?.code).toBe(ErrorCode.LOAD_TIMEOUT);
+        expect(result.message).toBe("Loading model 'm' timed out after 5s");
       });
     });
 
@@ -158,6 +587,69 @@ describe("tool handlers", () => {
       expect(result.success).toBe(false);
       expect(result.error?.code).toBe(ErrorCode.MODEL_NOT_LOADED);
     });
+
+    it("reports load progress", async () => {
+      const mockClient = {
+        llm: {
+          load: vi.fn().mockImplementation((_model, opts) => {
+            opts.onProgress(0.5);
+            return Promise.resolve({ identifier: "my-model", modelKey: "llama-3.2-3b", path: "/models/llama-3.2-3b" });
+          }),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const onProgress = vi.fn();
+      const result = await loadModel({ model: "llama-3.2-3b" }, { onProgress });
+
+      expect(result.success).toBe(true);
+      expect(onProgress).toHaveBeenCalledWith({ progress: 0.5, total: 1, message: "Loading model 'llama-3.2-3b'" });
+    });
+
+    it("returns LOAD_CANCELLED when the request is cancelled", async () => {
+      const mockClient = {
+        llm: {
+          load: vi.fn().mockImplementation(
+            (_model, opts) =>
+              new Promise((_resolve, reject) => {
+                opts.signal.addEventListener("abort", () => reject(new Error("Aborted")));
+              }),
+          ),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const controller = new AbortController();
+      const pending = loadModel({ model: "llama-3.2-3b" }, { signal: controller.signal });
+      controller.abort();
+      const result = await pending;
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.LOAD_CANCELLED);
+    });
+
+    it("returns LOAD_TIMEOUT and aborts the load when it takes too long", async () => {
+      vi.useFakeTimers();
+      let signal: AbortSignal | undefined;
+      const mockClient = {
+        llm: {
+          load: vi.fn().mockImplementation((_model, opts) => {
+            signal = opts.signal;
+            return new Promise(() => {});
+          }),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const pending = loadModel({ model: "llama-3.2-3b", timeoutSeconds: 5 });
+      await vi.advanceTimersByTimeAsync(5000);
+      const result = await pending;
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.LOAD_TIMEOUT);
+      expect(result.message).toBe("Loading model 'llama-3.2-3b' timed out after 5s");
+      expect(signal?.aborted).toBe(true);
+    });
   });
 
   describe("unloadModel", () => {
@@ -175,6 +667,20 @@ describe("tool handlers", () => {
       expect(mockClient.llm.unload).toHaveBeenCalledWith("my-model");
     });
 
+    it("unloads embedding models through the embedding namespace", async () => {
+      const mockClient = {
+        embedding: {
+          unload: vi.fn().mockResolvedValue(undefined),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await unloadModel({ identifier: "nomic-embed", type: "embedding" });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.embedding.unload).toHaveBeenCalledWith("nomic-embed");
+    });
+
     it("returns error when model not loaded", async () => {
       const mockClient = {
         llm: {
@@ -238,88 +744,1654 @@ describe("tool handlers", () => {
     });
   });
 
-  describe("edge cases", () => {
-    it("listModels returns empty array when no models", async () => {
+  describe("chatCompletion", () => {
+    const mockResult = {
+      content: "Hello there!",
+      modelInfo: { identifier: "my-model", modelKey: "llama-3.2-3b" },
+      stats: {
+        stopReason: "eosFound",
+        promptTokensCount: 12,
+        predictedTokensCount: 4,
+        totalTokensCount: 16,
+        tokensPerSecond: 42.5,
+        timeToFirstTokenSec: 0.1,
+        totalTimeSec: 0.2,
+      },
+    };
+
+    it("returns generated text with stop reason and stats", async () => {
+      const mockHandle = {
+        respond: vi.fn().mockResolvedValue(mockResult),
+      };
+
       const mockClient = {
-        system: {
-          listDownloadedModels: vi.fn().mockResolvedValue([]),
+        llm: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
         },
       };
       vi.mocked(getClient).mockReturnValue(mockClient as never);
 
-      const result = await listModels({});
+      const messages = [{ role: "user" as const, content: "Say hello" }];
+      const result = await chatCompletion({ identifier: "my-model", messages });
 
       expect(result.success).toBe(true);
-      expect(result.data).toEqual([]);
-      expect(result.message).toBe("Found 0 downloaded model(s)");
+      expect(result.data?.content).toBe("Hello there!");
+      expect(result.data?.stopReason).toBe("eosFound");
+      expect(result.data?.stats.predictedTokensCount).toBe(4);
+      expect(mockClient.llm.createDynamicHandle).toHaveBeenCalledWith({ identifier: "my-model" });
+      expect(mockHandle.respond).toHaveBeenCalledWith(messages, { signal: expect.any(AbortSignal) });
     });
 
-    it("listLoadedModels returns empty array when no models loaded", async () => {
+    it("passes sampling options to SDK", async () => {
+      const mockHandle = {
+        respond: vi.fn().mockResolvedValue(mockResult),
+      };
+
       const mockClient = {
         llm: {
-          listLoaded: vi.fn().mockResolvedValue([]),
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
         },
       };
       vi.mocked(getClient).mockReturnValue(mockClient as never);
 
-      const result = await listLoadedModels({});
+      const messages = [{ role: "user" as const, content: "Say hello" }];
+      await chatCompletion({
+        identifier: "my-model",
+        messages,
+        temperature: 0.2,
+        maxTokens: 64,
+        stopStrings: ["\n\n"],
+        topP: 0.9,
+      });
 
-      expect(result.success).toBe(true);
-      expect(result.data).toEqual([]);
-      expect(result.message).toBe("Found 0 loaded model(s)");
+      expect(mockHandle.respond).toHaveBeenCalledWith(messages, {
+        temperature: 0.2,
+        maxTokens: 64,
+        stopStrings: ["\n\n"],
+        topPSampling: 0.9,
+        signal: expect.any(AbortSignal),
+      });
     });
 
-    it("listModels handles models without optional fields", async () => {
-      const mockModels = [
-        {
-          modelKey: "test-model",
-          path: "/models/test",
-          displayName: "Test Model",
-          sizeBytes: 1000,
-          // architecture and quantization are undefined
-        },
-      ];
+    it("forwards cancellation and streams fragments as progress", async () => {
+      const mockHandle = {
+        respond: vi.fn().mockImplementation((_messages, opts) => {
+          opts.onPredictionFragment({ content: "Hello", tokensCount: 1 });
+          return Promise.resolve(mockResult);
+        }),
+      };
 
       const mockClient = {
-        system: {
-          listDownloadedModels: vi.fn().mockResolvedValue(mockModels),
+        llm: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
         },
       };
       vi.mocked(getClient).mockReturnValue(mockClient as never);
 
-      const result = await listModels({});
+      const controller = new AbortController();
+      const onProgress = vi.fn();
+      const result = await chatCompletion(
+        { identifier: "my-model", messages: [{ role: "user", content: "Say hello" }] },
+        { signal: controller.signal, onProgress },
+      );
 
-      expect(result.success).toBe(true);
-      expect(result.data?.[0].architecture).toBeUndefined();
-      expect(result.data?.[0].quantization).toBeUndefined();
+      expect(result.data?.content).toBe("Hello there!");
+      const signal: AbortSignal = mockHandle.respond.mock.calls[0][1].signal;
+      expect(signal.aborted).toBe(false);
+      controller.abort();
+      expect(signal.aborted).toBe(true);
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ progress: 1, message: "Hello" }));
     });
 
-    it("loadModel works with only required model parameter", async () => {
-      const mockModel = {
-        identifier: "auto-id",
-        modelKey: "test-model",
-        path: "/models/test",
+    it("stops the prediction when the generation timeout fires", async () => {
+      vi.useFakeTimers();
+      setServerConfig({ timeouts: { generation: 5 } });
+      let signal: AbortSignal | undefined;
+      const mockHandle = {
+        respond: vi.fn().mockImplementation((_messages, opts) => {
+          signal = opts.signal;
+          return new Promise(() => {});
+        }),
+      };
+      vi.mocked(getClient).mockReturnValue({
+        llm: { createDynamicHandle: vi.fn().mockReturnValue(mockHandle) },
+      } as never);
+
+      const pending = chatCompletion({ identifier: "my-model", messages: [{ role: "user", content: "Say hello" }] });
+      await vi.advanceTimersByTimeAsync(5000);
+      const result = await pending;
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("Chat completion timed out after 5s");
+      expect(signal?.aborted).toBe(true);
+      setServerConfig();
+    });
+
+    it("returns error when model not loaded", async () => {
+      const mockHandle = {
+        respond: vi.fn().mockRejectedValue(new Error("No loaded model satisfies the query")),
       };
 
       const mockClient = {
         llm: {
-          load: vi.fn().mockResolvedValue(mockModel),
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
         },
       };
       vi.mocked(getClient).mockReturnValue(mockClient as never);
 
-      const result = await loadModel({ model: "test-model" });
+      const result = await chatCompletion({ identifier: "nonexistent", messages: [{ role: "user", content: "Hi" }] });
 
-      expect(result.success).toBe(true);
-      expect(mockClient.llm.load).toHaveBeenCalledWith("test-model", {});
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.MODEL_NOT_LOADED);
     });
   });
 
-  describe("healthCheck", () => {
-    it("returns success when connected", async () => {
-      vi.mocked(testConnection).mockResolvedValue({
-        connected: true,
+  describe("chatCompletion with images", () => {
+    beforeEach(() => {
+      // Tool calls run as on the stdio transport unless a test says otherwise
+      allowAnyImageFile(true);
+    });
+
+    afterEach(() => {
+      allowAnyImageFile(false);
+      setServerConfig();
+    });
+
+    const mockResult = {
+      content: "A cat",
+      modelInfo: { identifier: "vision-model", modelKey: "qwen2.5-vl-7b" },
+      stats: { stopReason: "eosFound", predictedTokensCount: 2 },
+    };
+
+    const createClient = (vision: boolean | undefined) => {
+      const handle = {
+        respond: vi.fn().mockResolvedValue(mockResult),
+        getModelInfo: vi
+          .fn()
+          .mockResolvedValue(vision === undefined ? undefined : { modelKey: "qwen2.5-vl-7b", vision }),
+      };
+      return {
+        handle,
+        llm: { createDynamicHandle: vi.fn().mockReturnValue(handle) },
+        files: {
+          prepareImage: vi.fn(async (path: string) => ({ path })),
+          prepareImageBase64: vi.fn(async (fileName: string, data: string) => ({ fileName, data })),
+        },
+      };
+    };
+
+    it("prepares images and attaches them to their user message", async () => {
+      const mockClient = createClient(true);
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await chatCompletion({
+        identifier: "vision-model",
+        messages: [
+          { role: "system", content: "Describe images." },
+          {
+            role: "user",
+            content: "What is this?",
+            images: [
+              { type: "base64", data: "data:image/jpeg;base64,aGVsbG8=" },
+              { type: "image", data: "d29ybGQ=", mimeType: "image/webp" },
+              { type: "file", path: "package.json" },
+            ],
+          },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.files.prepareImageBase64).toHaveBeenCalledWith("image.jpeg", "aGVsbG8=");
+      expect(mockClient.files.prepareImageBase64).toHaveBeenCalledWith("image.webp", "d29ybGQ=");
+      expect(mockClient.files.prepareImage).toHaveBeenCalledWith(resolve("package.json"));
+      expect(mockClient.handle.respond.mock.calls[0][0]).toEqual([
+        { role: "system", content: "Describe images." },
+        {
+          role: "user",
+          content: "What is this?",
+          images: [
+            { fileName: "image.jpeg", data: "aGVsbG8=" },
+            { fileName: "image.webp", data: "d29ybGQ=" },
+            { path: resolve("package.json") },
+          ],
+        },
+      ]);
+    });
+
+    it("rejects images for models without vision support", async () => {
+      const mockClient = createClient(false);
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await chatCompletion({
+        identifier: "text-model",
+        messages: [{ role: "user", content: "What is this?", images: [{ type: "base64", data: "aGVsbG8=" }] }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.VISION_NOT_SUPPORTED);
+      expect(mockClient.files.prepareImageBase64).not.toHaveBeenCalled();
+      expect(mockClient.handle.respond).not.toHaveBeenCalled();
+    });
+
+    it("returns MODEL_NOT_LOADED when the model is not loaded", async () => {
+      vi.mocked(getClient).mockReturnValue(createClient(undefined) as never);
+
+      const result = await chatCompletion({
+        identifier: "missing",
+        messages: [{ role: "user", content: "What is this?", images: [{ type: "base64", data: "aGVsbG8=" }] }],
+      });
+
+      expect(result.error?.code).toBe(ErrorCode.MODEL_NOT_LOADED);
+    });
+
+    it("returns INVALID_INPUT for image files that do not exist", async () => {
+      const mockClient = createClient(true);
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await chatCompletion({
+        identifier: "vision-model",
+        messages: [{ role: "user", content: "What is this?", images: [{ type: "file", path: "/no/such/image.png" }] }],
+      });
+
+      expect(result.error?.code).toBe(ErrorCode.INVALID_INPUT);
+      expect(result.message).toBe("Image file '/no/such/image.png' does not exist or cannot be read");
+      expect(mockClient.handle.respond).not.toHaveBeenCalled();
+    });
+
+    it("rejects image files outside stdio without an image directory", async () => {
+      allowAnyImageFile(false);
+      const mockClient = createClient(true);
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await chatCompletion({
+        identifier: "vision-model",
+        messages: [{ role: "user", content: "What is this?", images: [{ type: "file", path: "package.json" }] }],
+      });
+
+      expect(result.error?.code).toBe(ErrorCode.INVALID_INPUT);
+      expect(result.message).toBe("Image file inputs are not allowed on this transport");
+      expect(mockClient.files.prepareImage).not.toHaveBeenCalled();
+    });
+
+    it("only reads image files inside the image directory", async () => {
+      allowAnyImageFile(false);
+      const root = mkdtempSync(join(tmpdir(), "lmstudio-mcp-images-"));
+      try {
+        const directory = join(root, "images");
+        mkdirSync(directory);
+        writeFileSync(join(directory, "cat.png"), "png");
+        writeFileSync(join(root, "secret.txt"), "secret");
+        symlinkSync(join(root, "secret.txt"), join(directory, "link.png"));
+        setServerConfig({ imageDirectory: directory });
+        const mockClient = createClient(true);
+        vi.mocked(getClient).mockReturnValue(mockClient as never);
+        const send = (path: string) =>
+          chatCompletion({
+            identifier: "vision-model",
+            messages: [{ role: "user", content: "What is this?", images: [{ type: "file", path }] }],
+          });
+
+        const inside = await send("cat.png");
+        const traversal = await send("../secret.txt");
+        const absolute = await send(join(root, "secret.txt"));
+        const symlink = await send("link.png");
+
+        expect(inside.success).toBe(true);
+        expect(mockClient.files.prepareImage).toHaveBeenCalledTimes(1);
+        for (const result of [traversal, absolute, symlink]) {
+          expect(result.error?.code).toBe(ErrorCode.INVALID_INPUT);
+          expect(result.message).toContain("is outside the image directory");
+        }
+      } finally {
+        rmSync(root, { recursive: true, force: true });
+      }
+    });
+
+    it("does not check vision support for text-only chats", async () => {
+      const mockClient = createClient(false);
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await chatCompletion({ identifier: "text-model", messages: [{ role: "user", content: "Hi" }] });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.handle.getModelInfo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("structuredCompletion", () => {
+    const jsonSchema = {
+      type: "object",
+      properties: { name: { type: "string" }, age: { type: "number" } },
+      required: ["name", "age"],
+    };
+
+    function replyWith(content: string) {
+      return {
+        content,
+        modelInfo: { identifier: "my-model", modelKey: "llama-3.2-3b" },
+        stats: { stopReason: "eosFound", predictedTokensCount: 8 },
+      };
+    }
+
+    it("returns validated output and sends the schema to LM Studio", async () => {
+      const mockHandle = {
+        respond: vi.fn().mockResolvedValue(replyWith('{"name":"Ada","age":36}')),
+      };
+
+      const mockClient = {
+        llm: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await structuredCompletion({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Ada Lovelace, 36" }],
+        jsonSchema,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.output).toEqual({ name: "Ada", age: 36 });
+      expect(result.data?.attempts).toBe(1);
+      expect(mockHandle.respond.mock.calls[0][1].structured).toEqual({ type: "json", jsonSchema });
+    });
+
+    it("retries with validation feedback until the reply matches", async () => {
+      const mockHandle = {
+        respond: vi
+          .fn()
+          .mockResolvedValueOnce(replyWith('{"name":"Ada"}'))
+          .mockResolvedValueOnce(replyWith('{"name":"Ada","age":36}')),
+      };
+
+      const mockClient = {
+        llm: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await structuredCompletion({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Ada Lovelace, 36" }],
+        jsonSchema,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.attempts).toBe(2);
+      const retryMessages = mockHandle.respond.mock.calls[1][0];
+      expect(retryMessages).toHaveLength(3);
+      expect(retryMessages[1]).toEqual({ role: "assistant", content: '{"name":"Ada"}' });
+      expect(retryMessages[2].content).toContain("age");
+    });
+
+    it("fails with SCHEMA_VALIDATION_FAILED after exhausting retries", async () => {
+      const mockHandle = {
+        respond: vi.fn().mockResolvedValue(replyWith("not json")),
+      };
+
+      const mockClient = {
+        llm: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await structuredCompletion({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Hi" }],
+        jsonSchema,
+        maxRetries: 1,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.SCHEMA_VALIDATION_FAILED);
+      expect(result.error?.message).toContain("Reply is not valid JSON");
+      expect(mockHandle.respond).toHaveBeenCalledTimes(2);
+    });
+
+    it("resolves named schemas", async () => {
+      const mockHandle = {
+        respond: vi.fn().mockResolvedValue(replyWith('{"items":["a","b"]}')),
+      };
+
+      const mockClient = {
+        llm: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await structuredCompletion({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "List two letters" }],
+        schemaName: "string_list",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.output).toEqual({ items: ["a", "b"] });
+      expect(mockHandle.respond.mock.calls[0][1].structured.jsonSchema.required).toEqual(["items"]);
+    });
+
+    it("rejects unknown schema names and missing schemas", async () => {
+      const unknown = await structuredCompletion({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Hi" }],
+        schemaName: "nope",
+      });
+      const missing = await structuredCompletion({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Hi" }],
+      });
+
+      expect(unknown.error?.code).toBe(ErrorCode.INVALID_INPUT);
+      expect(unknown.message).toBe("Unknown schema 'nope'");
+      expect(missing.error?.code).toBe(ErrorCode.INVALID_INPUT);
+      expect(getClient).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("toolCompletion", () => {
+    const tools = [
+      {
+        name: "get_weather",
+        description: "Get the weather for a city",
+        parameters: { type: "object" as const, properties: { city: { type: "string" } }, required: ["city"] },
+      },
+      { name: "get_time" },
+    ];
+
+    function mockRespond(respond: (history: unknown, opts: LLMRespondOpts) => void) {
+      const mockHandle = {
+        respond: vi.fn(async (history: unknown, opts: LLMRespondOpts) => {
+          respond(history, opts);
+          return {
+            content: "",
+            modelInfo: { identifier: "my-model", modelKey: "qwen2.5-7b", trainedForToolUse: true },
+            stats: { stopReason: "toolCalls", predictedTokensCount: 12 },
+          };
+        }),
+      };
+      vi.mocked(getClient).mockReturnValue({
+        llm: { createDynamicHandle: vi.fn().mockReturnValue(mockHandle) },
+      } as never);
+      return mockHandle;
+    }
+
+    it("returns requested tool calls with parsed arguments in call order", async () => {
+      const mockHandle = mockRespond((_history, opts) => {
+        opts.onToolCallRequestEnd?.(1, {
+          toolCallRequest: { id: "call_2", type: "function", name: "get_time" },
+          rawContent: undefined,
+        });
+        opts.onToolCallRequestEnd?.(0, {
+          toolCallRequest: { id: "call_1", type: "function", name: "get_weather", arguments: { city: "Paris" } },
+          rawContent: undefined,
+        });
+      });
+
+      const result = await toolCompletion({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Weather and time in Paris?" }],
+        tools,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.toolCalls).toEqual([
+        { id: "call_1", name: "get_weather", arguments: { city: "Paris" } },
+        { id: "call_2", name: "get_time", arguments: {} },
+      ]);
+      expect(result.data?.trainedForToolUse).toBe(true);
+      expect(result.data?.stopReason).toBe("toolCalls");
+      expect(result.message).toBe("Model 'my-model' requested 2 tool call(s)");
+      expect(mockHandle.respond.mock.calls[0][1].rawTools).toEqual({
+        type: "toolArray",
+        force: false,
+        tools: [
+          { type: "function", function: tools[0] },
+          {
+            type: "function",
+            function: { name: "get_time", description: undefined, parameters: { type: "object", properties: {} } },
+          },
+        ],
+      });
+      expect(getLastUsedAt("my-model")).toBeDefined();
+    });
+
+    it("sends earlier tool calls and results back as chat history", async () => {
+      const mockHandle = mockRespond(() => {});
+
+      await toolCompletion({
+        identifier: "my-model",
+        messages: [
+          { role: "user", content: "Weather in Paris?" },
+          {
+            role: "assistant",
+            content: "",
+            toolCalls: [{ id: "call_1", name: "get_weather", arguments: { city: "Paris" } }],
+          },
+          { role: "tool", content: '{"temperature":18}', toolCallId: "call_1" },
+        ],
+        tools,
+        toolChoice: "required",
+      });
+
+      const [history, opts] = mockHandle.respond.mock.calls[0];
+      expect(opts.rawTools).toMatchObject({ force: true });
+      expect(history).toEqual({
+        messages: [
+          { role: "user", content: [{ type: "text", text: "Weather in Paris?" }] },
+          {
+            role: "assistant",
+            content: [
+              {
+                type: "toolCallRequest",
+                toolCallRequest: { id: "call_1", type: "function", name: "get_weather", arguments: { city: "Paris" } },
+              },
+            ],
+          },
+          { role: "tool", content: [{ type: "toolCallResult", content: '{"temperature":18}', toolCallId: "call_1" }] },
+        ],
+      });
+    });
+
+    it("reports tool calls that could not be parsed", async () => {
+      mockRespond((_history, opts) => {
+        opts.onToolCallRequestFailure?.(0, new ToolCallRequestError("Invalid JSON", "{city: Paris"));
+      });
+
+      const result = await toolCompletion({
+        identifier: "my-model",
+        messages: [{ role: "user", content: "Weather in Paris?" }],
+        tools,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.toolCalls).toEqual([]);
+      expect(result.data?.failedToolCalls).toEqual([{ error: "Invalid JSON", rawContent: "{city: Paris" }]);
+    });
+
+    it("returns an error when the model is not loaded", async () => {
+      vi.mocked(getClient).mockReturnValue({
+        llm: {
+          createDynamicHandle: vi.fn().mockReturnValue({
+            respond: vi.fn().mockRejectedValue(new Error("Model not found")),
+          }),
+        },
+      } as never);
+
+      const result = await toolCompletion({
+        identifier: "missing",
+        messages: [{ role: "user", content: "Hi" }],
+        tools,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.MODEL_NOT_LOADED);
+    });
+  });
+
+  describe("embedText", () => {
+    it("returns one vector per input string", async () => {
+      const mockHandle = {
+        embed: vi.fn().mockResolvedValue([{ embedding: [0.1, 0.2, 0.3] }, { embedding: [0.4, 0.5, 0.6] }]),
+      };
+
+      const mockClient = {
+        embedding: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await embedText({ identifier: "nomic-embed", texts: ["first", "second"] });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.dimensions).toBe(3);
+      expect(result.data?.embeddings).toEqual([
+        [0.1, 0.2, 0.3],
+        [0.4, 0.5, 0.6],
+      ]);
+      expect(mockClient.embedding.createDynamicHandle).toHaveBeenCalledWith({ identifier: "nomic-embed" });
+      expect(mockHandle.embed).toHaveBeenCalledWith(["first", "second"]);
+    });
+
+    it("returns error when model not loaded", async () => {
+      const mockHandle = {
+        embed: vi.fn().mockRejectedValue(new Error("No loaded model satisfies the query")),
+      };
+
+      const mockClient = {
+        embedding: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await embedText({ identifier: "nonexistent", texts: ["hello"] });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.MODEL_NOT_LOADED);
+    });
+  });
+
+  describe("tokenize", () => {
+    it("returns tokens and context fit", async () => {
+      const mockHandle = {
+        tokenize: vi.fn().mockResolvedValue([101, 102, 103]),
+        getContextLength: vi.fn().mockResolvedValue(4096),
+      };
+
+      const mockClient = {
+        llm: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await tokenize({ identifier: "my-model", text: "Hello world", reserveTokens: 1000 });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        identifier: "my-model",
+        tokens: [101, 102, 103],
+        tokenCount: 3,
+        contextLength: 4096,
+        reservedTokens: 1000,
+        fitsInContext: true,
+        remainingTokens: 3093,
+      });
+    });
+  });
+
+  describe("countTokens", () => {
+    it("counts plain text tokens", async () => {
+      const mockHandle = {
+        countTokens: vi.fn().mockResolvedValue(10),
+        getContextLength: vi.fn().mockResolvedValue(4096),
+      };
+
+      const mockClient = {
+        llm: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await countTokens({ identifier: "my-model", text: "Hello world" });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.tokenCount).toBe(10);
+      expect(result.data?.remainingTokens).toBe(4086);
+      expect(mockHandle.countTokens).toHaveBeenCalledWith("Hello world");
+    });
+
+    it("applies the prompt template to messages and reports overflow", async () => {
+      const mockHandle = {
+        applyPromptTemplate: vi.fn().mockResolvedValue("<|user|>Hello<|end|>"),
+        countTokens: vi.fn().mockResolvedValue(5000),
+        getContextLength: vi.fn().mockResolvedValue(4096),
+      };
+
+      const mockClient = {
+        llm: {
+          createDynamicHandle: vi.fn().mockReturnValue(mockHandle),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const messages = [{ role: "user" as const, content: "Hello" }];
+      const result = await countTokens({ identifier: "my-model", messages });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.fitsInContext).toBe(false);
+      expect(result.data?.remainingTokens).toBe(-904);
+      expect(result.message).toBe("Counted 5000 token(s) with 'my-model', 904 token(s) over the limit");
+      expect(mockHandle.applyPromptTemplate).toHaveBeenCalledWith(messages);
+      expect(mockHandle.countTokens).toHaveBeenCalledWith("<|user|>Hello<|end|>");
+    });
+
+    it("requires exactly one of text or messages", async () => {
+      const neither = await countTokens({ identifier: "my-model" });
+      const both = await countTokens({
+        identifier: "my-model",
+        text: "Hello",
+        messages: [{ role: "user", content: "Hello" }],
+      });
+
+      expect(neither.error?.code).toBe(ErrorCode.INVALID_INPUT);
+      expect(both.error?.code).toBe(ErrorCode.INVALID_INPUT);
+      expect(getClient).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("edge cases", () => {
+    it("listModels returns empty array when no models", async () => {
+      const mockClient = {
+        system: {
+          listDownloadedModels: vi.fn().mockResolvedValue([]),
+        },
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await listModels({});
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([]);
+      expect(result.message).toBe("Found 0 downloaded model(s)");
+    });
+
+    it("listLoadedModels returns empty array when no models loaded", async () => {
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await listLoadedModels({});
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([]);
+      expect(result.message).toBe("Found 0 loaded model(s)");
+    });
+
+    it("listModels handles models without optional fields", async () => {
+      const mockModels = [
+        {
+          modelKey: "test-model",
+          path: "/models/test",
+          displayName: "Test Model",
+          sizeBytes: 1000,
+          // architecture and quantization are undefined
+        },
+      ];
+
+      const mockClient = {
+        system: {
+          listDownloadedModels: vi.fn().mockResolvedValue(mockModels),
+        },
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await listModels({});
+
+      expect(result.success).toBe(true);
+      expect(result.data?.[0].architecture).toBeUndefined();
+      expect(result.data?.[0].quantization).toBeUndefined();
+    });
+
+    it("loadModel works with only required model parameter", async () => {
+      const mockModel = {
+        identifier: "auto-id",
+        modelKey: "test-model",
+        path: "/models/test",
+      };
+
+      const mockClient = {
+        llm: {
+          load: vi.fn().mockResolvedValue(mockModel),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadModel({ model: "test-model" });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.llm.load).toHaveBeenCalledWith("test-model", { signal: expect.any(AbortSignal) });
+    });
+  });
+
+  describe("ensureModelLoaded", () => {
+    const instance = (identifier: string, modelKey: string, contextLength = 4096) => ({
+      identifier,
+      modelKey,
+      path: `/models/${modelKey}`,
+      getContextLength: vi.fn().mockResolvedValue(contextLength),
+    });
+
+    it("returns an existing instance without loading", async () => {
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([instance("other", "phi-3"), instance("llama", "llama-3.2-3b")]),
+          load: vi.fn(),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await ensureModelLoaded({ model: "llama-3.2-3b" });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Model 'llama-3.2-3b' is already loaded as 'llama'");
+      expect(result.data).toEqual({
+        type: "llm",
+        identifier: "llama",
+        modelKey: "llama-3.2-3b",
+        path: "/models/llama-3.2-3b",
+        alreadyLoaded: true,
+      });
+      expect(mockClient.llm.load).not.toHaveBeenCalled();
+    });
+
+    it("loads the model when no instance exists", async () => {
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([instance("other", "phi-3")]),
+          load: vi.fn().mockResolvedValue({ identifier: "llama", modelKey: "llama-3.2-3b", path: "/models/llama" }),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await ensureModelLoaded({ model: "llama-3.2-3b", contextLength: 8192 });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.alreadyLoaded).toBe(false);
+      expect(result.data?.config).toEqual({ contextLength: 8192 });
+      expect(mockClient.llm.load).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores instances with a different context length when matchConfig is set", async () => {
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([instance("llama", "llama-3.2-3b", 4096)]),
+          load: vi.fn().mockResolvedValue({ identifier: "llama:2", modelKey: "llama-3.2-3b", path: "/models/llama" }),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const reused = await ensureModelLoaded({ model: "llama-3.2-3b", contextLength: 8192 });
+      const loaded = await ensureModelLoaded({ model: "llama-3.2-3b", contextLength: 8192, matchConfig: true });
+
+      expect(reused.data?.alreadyLoaded).toBe(true);
+      expect(loaded.data?.alreadyLoaded).toBe(false);
+      expect(mockClient.llm.load).toHaveBeenCalledTimes(1);
+    });
+
+    it("only reuses an instance with the requested identifier", async () => {
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([instance("llama", "llama-3.2-3b")]),
+          load: vi.fn().mockResolvedValue({ identifier: "coder", modelKey: "llama-3.2-3b", path: "/models/llama" }),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await ensureModelLoaded({ model: "llama-3.2-3b", identifier: "coder" });
+
+      expect(result.data?.alreadyLoaded).toBe(false);
+      expect(mockClient.llm.load).toHaveBeenCalledWith("llama-3.2-3b", {
+        identifier: "coder",
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it("merges concurrent calls for the same model into one load", async () => {
+      let finishLoad: (model: unknown) => void = () => {};
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+          load: vi.fn().mockReturnValue(
+            new Promise((resolve) => {
+              finishLoad = resolve;
+            }),
+          ),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const first = ensureModelLoaded({ model: "llama-3.2-3b" });
+      const second = ensureModelLoaded({ model: "llama-3.2-3b" });
+      await vi.waitFor(() => expect(mockClient.llm.load).toHaveBeenCalled());
+      finishLoad({ identifier: "llama", modelKey: "llama-3.2-3b", path: "/models/llama" });
+
+      const results = await Promise.all([first, second]);
+
+      expect(mockClient.llm.load).toHaveBeenCalledTimes(1);
+      expect(results[0]).toEqual(results[1]);
+      expect(results[0].data?.alreadyLoaded).toBe(false);
+    });
+
+    it("does not merge concurrent calls that ask for different instances", async () => {
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+          load: vi.fn((modelKey: string, opts: { identifier?: string }) =>
+            Promise.resolve({ identifier: opts.identifier ?? modelKey, modelKey, path: "/models/llama" }),
+          ),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const [coder, writer, small] = await Promise.all([
+        ensureModelLoaded({ model: "llama-3.2-3b", identifier: "coder" }),
+        ensureModelLoaded({ model: "llama-3.2-3b", identifier: "writer" }),
+        ensureModelLoaded({ model: "llama-3.2-3b", identifier: "coder", contextLength: 2048 }),
+      ]);
+
+      expect(mockClient.llm.load).toHaveBeenCalledTimes(3);
+      expect(coder.data?.identifier).toBe("coder");
+      expect(writer.data?.identifier).toBe("writer");
+      expect(small.data?.config).toEqual({ contextLength: 2048 });
+    });
+
+    it("keeps a shared load running when only the first caller cancels", async () => {
+      let finishLoad: (model: unknown) => void = () => {};
+      let loadSignal: AbortSignal | undefined;
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+          load: vi.fn((_modelKey: string, opts: { signal: AbortSignal }) => {
+            loadSignal = opts.signal;
+            return new Promise((resolve) => {
+              finishLoad = resolve;
+            });
+          }),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+      const firstController = new AbortController();
+      const secondController = new AbortController();
+
+      const first = ensureModelLoaded({ model: "llama-3.2-3b" }, { signal: firstController.signal });
+      const second = ensureModelLoaded({ model: "llama-3.2-3b" }, { signal: secondController.signal });
+      await vi.waitFor(() => expect(mockClient.llm.load).toHaveBeenCalled());
+      firstController.abort();
+
+      expect(loadSignal?.aborted).toBe(false);
+      finishLoad({ identifier: "llama", modelKey: "llama-3.2-3b", path: "/models/llama" });
+      const results = await Promise.all([first, second]);
+
+      expect(results[1].success).toBe(true);
+      expect(results[1].data?.identifier).toBe("llama");
+      expect(mockClient.llm.load).toHaveBeenCalledTimes(1);
+    });
+
+    it("cancels a shared load once every caller has cancelled", async () => {
+      let loadSignal: AbortSignal | undefined;
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+          load: vi.fn((_modelKey: string, opts: { signal: AbortSignal }) => {
+            loadSignal = opts.signal;
+            return new Promise((_resolve, reject) => {
+              opts.signal.addEventListener("abort", () => reject(new Error("Aborted")));
+            });
+          }),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+      const firstController = new AbortController();
+      const secondController = new AbortController();
+
+      const first = ensureModelLoaded({ model: "llama-3.2-3b" }, { signal: firstController.signal });
+      const second = ensureModelLoaded({ model: "llama-3.2-3b" }, { signal: secondController.signal });
+      await vi.waitFor(() => expect(mockClient.llm.load).toHaveBeenCalled());
+      firstController.abort();
+      secondController.abort();
+
+      const results = await Promise.all([first, second]);
+
+      expect(loadSignal?.aborted).toBe(true);
+      expect(results[0].error?.code).toBe(ErrorCode.LOAD_CANCELLED);
+    });
+
+    it("starts a new load for a request made after every caller cancelled", async () => {
+      const loads: { signal: AbortSignal; finish: (model: unknown) => void }[] = [];
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+          // The aborted load never settles, like an SDK call still winding down
+          load: vi.fn(
+            (_modelKey: string, opts: { signal: AbortSignal }) =>
+              new Promise((resolve) => loads.push({ signal: opts.signal, finish: resolve })),
+          ),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+      const controller = new AbortController();
+
+      const cancelled = ensureModelLoaded({ model: "llama-3.2-3b" }, { signal: controller.signal });
+      await vi.waitFor(() => expect(mockClient.llm.load).toHaveBeenCalledTimes(1));
+      controller.abort();
+      const retry = ensureModelLoaded({ model: "llama-3.2-3b" });
+      await vi.waitFor(() => expect(mockClient.llm.load).toHaveBeenCalledTimes(2));
+      loads[1].finish({ identifier: "llama", modelKey: "llama-3.2-3b", path: "/models/llama" });
+
+      expect((await cancelled).error?.code).toBe(ErrorCode.LOAD_CANCELLED);
+      expect(loads[0].signal.aborted).toBe(true);
+      expect((await retry).data?.identifier).toBe("llama");
+    });
+
+    it("checks embedding models when type is embedding", async () => {
+      const mockClient = {
+        embedding: {
+          listLoaded: vi.fn().mockResolvedValue([instance("nomic", "nomic-embed-text-v1.5")]),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await ensureModelLoaded({ model: "nomic-embed-text-v1.5", type: "embedding" });
+
+      expect(result.data).toMatchObject({ type: "embedding", identifier: "nomic", alreadyLoaded: true });
+    });
+
+    it("passes load failures through", async () => {
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+          load: vi.fn().mockRejectedValue(new Error("Out of memory")),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await ensureModelLoaded({ model: "llama-3.2-3b" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.LOAD_FAILED);
+    });
+  });
+
+  describe("presets", () => {
+    beforeEach(() => {
+      setServerConfig({
+        presets: {
+          coder: { model: "qwen2.5-coder-14b", contextLength: 32768, gpuOffload: "max" },
+          embedder: { model: "nomic-embed-text-v1.5", type: "embedding", identifier: "embeddings" },
+        },
+      });
+    });
+
+    afterEach(() => {
+      setServerConfig();
+    });
+
+    it("lists presets with their resolved type and identifier", async () => {
+      const result = await listPresets({});
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([
+        {
+          name: "coder",
+          model: "qwen2.5-coder-14b",
+          type: "llm",
+          identifier: "coder",
+          contextLength: 32768,
+          gpuOffload: "max",
+        },
+        { name: "embedder", model: "nomic-embed-text-v1.5", type: "embedding", identifier: "embeddings" },
+      ]);
+    });
+
+    it("returns an empty list without presets", async () => {
+      setServerConfig();
+
+      const result = await listPresets({});
+
+      expect(result.data).toEqual([]);
+    });
+
+    it("loads a preset with its model, identifier and config", async () => {
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+          load: vi.fn().mockResolvedValue({ identifier: "coder", modelKey: "qwen2.5-coder-14b", path: "/models/qwen" }),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadPreset({ preset: "coder" });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.llm.load).toHaveBeenCalledWith("qwen2.5-coder-14b", {
+        identifier: "coder",
+        config: { contextLength: 32768, gpu: { ratio: "max" } },
+        signal: expect.any(AbortSignal),
+      });
+      expect(result.data).toEqual({
+        preset: "coder",
+        alreadyLoaded: false,
+        type: "llm",
+        identifier: "coder",
+        modelKey: "qwen2.5-coder-14b",
+        path: "/models/qwen",
+        config: { contextLength: 32768, gpuOffload: "max" },
+      });
+    });
+
+    it("does nothing when the preset's identifier is already loaded", async () => {
+      const mockClient = {
+        embedding: {
+          listLoaded: vi
+            .fn()
+            .mockResolvedValue([
+              { identifier: "embeddings", modelKey: "nomic-embed-text-v1.5", path: "/models/nomic" },
+            ]),
+          load: vi.fn(),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadPreset({ preset: "embedder" });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Preset 'embedder' is already loaded as 'embeddings'");
+      expect(result.data).toEqual({
+        preset: "embedder",
+        alreadyLoaded: true,
+        type: "embedding",
+        identifier: "embeddings",
+        modelKey: "nomic-embed-text-v1.5",
+        path: "/models/nomic",
+      });
+      expect(mockClient.embedding.load).not.toHaveBeenCalled();
+    });
+
+    it("returns PRESET_NOT_FOUND for unknown presets", async () => {
+      const result = await loadPreset({ preset: "nope" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.PRESET_NOT_FOUND);
+      expect(result.error?.message).toBe("Available presets: coder, embedder");
+      expect(getClient).not.toHaveBeenCalled();
+    });
+
+    it("passes load failures through", async () => {
+      const mockClient = {
+        llm: {
+          listLoaded: vi.fn().mockResolvedValue([]),
+          load: vi.fn().mockRejectedValue(new Error("Out of memory")),
+        },
+      };
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadPreset({ preset: "coder" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.LOAD_FAILED);
+      expect(result.data).toBeUndefined();
+    });
+  });
+
+  describe("memory budget", () => {
+    const instance = (identifier: string, sizeBytes: number) => ({
+      identifier,
+      modelKey: `${identifier}-key`,
+      path: `/models/${identifier}`,
+      sizeBytes,
+    });
+
+    // Loaded: a (40 bytes, used last), b (30 bytes, used first), c (20 bytes, never used)
+    const createClient = () => ({
+      system: {
+        listDownloadedModels: vi.fn().mockResolvedValue([
+          { type: "llm", modelKey: "big-model", sizeBytes: 50 },
+          { type: "llm", modelKey: "huge-model", sizeBytes: 150 },
+        ]),
+      },
+      llm: {
+        listLoaded: vi.fn().mockResolvedValue([instance("a", 40), instance("b", 30)]),
+        load: vi.fn().mockResolvedValue({ identifier: "big", modelKey: "big-model", path: "/models/big" }),
+        unload: vi.fn().mockResolvedValue(undefined),
+      },
+      embedding: {
+        listLoaded: vi.fn().mockResolvedValue([instance("c", 20)]),
+        unload: vi.fn().mockResolvedValue(undefined),
+      },
+    });
+
+    beforeEach(() => {
+      resetModelUsage();
+      setServerConfig({ memoryBudget: { maxBytes: 100 } });
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+      recordModelUse("b");
+      vi.setSystemTime(new Date("2026-01-01T00:01:00Z"));
+      recordModelUse("a");
+    });
+
+    afterEach(() => {
+      setServerConfig();
+    });
+
+    it("plans to evict least recently used models first, never-used ones before the rest", async () => {
+      vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+      const result = await planModelLoad({ model: "big-model" });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Loading model 'big-model' would evict 2 model(s)");
+      expect(result.data).toEqual({
+        modelKey: "big-model",
+        sizeBytes: 50,
+        budgetBytes: 100,
+        loadedBytes: 90,
+        fits: false,
+        possible: true,
+        evict: [
+          { type: "embedding", identifier: "c", modelKey: "c-key", sizeBytes: 20 },
+          {
+            type: "llm",
+            identifier: "b",
+            modelKey: "b-key",
+            sizeBytes: 30,
+            lastUsedAt: "2026-01-01T00:00:00.000Z",
+          },
+        ],
+        freedBytes: 50,
+      });
+    });
+
+    it("skips pinned models when planning", async () => {
+      vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+      const pinned = await pinModel({ identifier: "c" });
+      const result = await planModelLoad({ model: "big-model" });
+
+      expect(pinned.data).toEqual({ identifier: "c", backend: "default", pinned: true });
+      expect(result.data?.evict.map((candidate) => candidate.identifier)).toEqual(["b", "a"]);
+    });
+
+    it("unpins models", async () => {
+      await pinModel({ identifier: "c" });
+
+      const result = await unpinModel({ identifier: "c" });
+      const again = await unpinModel({ identifier: "c" });
+
+      expect(result.message).toBe("Model 'c' unpinned");
+      expect(again.message).toBe("Model 'c' was not pinned");
+      expect(isPinned("c")).toBe(false);
+    });
+
+    it("reports models that cannot fit even after evicting everything", async () => {
+      vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+      const result = await planModelLoad({ model: "huge-model" });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.fits).toBe(false);
+      expect(result.data?.possible).toBe(false);
+    });
+
+    it("returns MODEL_NOT_FOUND when planning for a model that is not downloaded", async () => {
+      vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+      const result = await planModelLoad({ model: "missing" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.MODEL_NOT_FOUND);
+    });
+
+    it("returns INVALID_INPUT when planning without a budget", async () => {
+      setServerConfig();
+
+      const result = await planModelLoad({ model: "big-model" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.INVALID_INPUT);
+    });
+
+    it("refuses loads over the budget unless eviction is requested", async () => {
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadModel({ model: "big-model" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.MEMORY_BUDGET_EXCEEDED);
+      expect(result.error?.message).toBe("Set evict to unload: c, b");
+      expect(mockClient.llm.unload).not.toHaveBeenCalled();
+      expect(mockClient.llm.load).not.toHaveBeenCalled();
+    });
+
+    it("refuses loads of models whose size is unknown when a budget is set", async () => {
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadModel({ model: "missing" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.MODEL_NOT_FOUND);
+      expect(mockClient.llm.load).not.toHaveBeenCalled();
+    });
+
+    it("evicts least recently used models before loading when requested", async () => {
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadModel({ model: "big-model", evict: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.evicted?.map((candidate) => candidate.identifier)).toEqual(["c", "b"]);
+      expect(mockClient.embedding.unload).toHaveBeenCalledWith("c");
+      expect(mockClient.llm.unload).toHaveBeenCalledWith("b");
+      expect(mockClient.llm.load).toHaveBeenCalledTimes(1);
+      expect(getLastUsedAt("b")).toBeUndefined();
+      expect(getLastUsedAt("big")).toBe("2026-01-01T00:01:00.000Z");
+    });
+
+    it("evicts automatically when autoEvict is set", async () => {
+      setServerConfig({ memoryBudget: { maxBytes: 100, autoEvict: true } });
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadModel({ model: "big-model" });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.llm.unload).toHaveBeenCalledWith("b");
+    });
+
+    it("refuses loads that cannot fit even with eviction", async () => {
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadModel({ model: "huge-model", evict: true });
+
+      expect(result.error?.code).toBe(ErrorCode.MEMORY_BUDGET_EXCEEDED);
+      expect(mockClient.llm.unload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("idle TTL", () => {
+    const createClient = () => ({
+      llm: {
+        listLoaded: vi.fn().mockResolvedValue([
+          {
+            identifier: "llama",
+            modelKey: "llama-3.2-3b",
+            path: "/models/llama",
+            displayName: "Llama",
+            sizeBytes: 100,
+            vision: false,
+            trainedForToolUse: false,
+          },
+        ]),
+        load: vi.fn().mockResolvedValue({ identifier: "llama", modelKey: "llama-3.2-3b", path: "/models/llama" }),
+        unload: vi.fn().mockResolvedValue(undefined),
+      },
+      embedding: {
+        listLoaded: vi.fn().mockResolvedValue([]),
+      },
+    });
+
+    // Idle unloads are logged to stderr
+    let stderr: MockInstance;
+
+    beforeEach(() => {
+      resetModelUsage();
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+      stderr = vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      resetModelUsage();
+      stderr.mockRestore();
+    });
+
+    it("unloads the model once it has been idle for the TTL", async () => {
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await loadModel({ model: "llama-3.2-3b", idleTtl: 60 });
+
+      expect(result.data?.idleTtl).toBe(60);
+      expect(result.data?.expiresAt).toBe("2026-01-01T00:01:00.000Z");
+      expect(mockClient.llm.load.mock.calls[0][1]).not.toHaveProperty("ttl");
+
+      await vi.advanceTimersByTimeAsync(59_000);
+      expect(mockClient.llm.unload).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(mockClient.llm.unload).toHaveBeenCalledWith("llama");
+      expect(getExpiresAt("llama")).toBeUndefined();
+      expect(stderr).toHaveBeenCalledWith("Unloaded idle model 'llama' on backend 'default'");
+    });
+
+    it("postpones the unload when a tool uses the model", async () => {
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      await loadModel({ model: "llama-3.2-3b", idleTtl: 60 });
+      await vi.advanceTimersByTimeAsync(30_000);
+      recordModelUse("llama");
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(mockClient.llm.unload).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(mockClient.llm.unload).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not unload the model while a generation longer than the TTL runs", async () => {
+      const mockClient = createClient();
+      let finish: (value: unknown) => void = () => {};
+      const respond = vi.fn().mockReturnValue(new Promise((resolve) => (finish = resolve)));
+      Object.assign(mockClient.llm, { createDynamicHandle: vi.fn().mockReturnValue({ respond }) });
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      await loadModel({ model: "llama-3.2-3b", idleTtl: 60 });
+      const pending = chatCompletion({ identifier: "llama", messages: [{ role: "user", content: "Write a story" }] });
+      await vi.advanceTimersByTimeAsync(120_000);
+
+      expect(mockClient.llm.unload).not.toHaveBeenCalled();
+      expect(getExpiresAt("llama")).toBeDefined();
+
+      finish({
+        content: "Once upon a time",
+        modelInfo: { identifier: "llama", modelKey: "llama-3.2-3b" },
+        stats: { stopReason: "eosFound", predictedTokensCount: 4 },
+      });
+      expect((await pending).success).toBe(true);
+      expect(getExpiresAt("llama")).toBe("2026-01-01T00:03:00.000Z");
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(mockClient.llm.unload).toHaveBeenCalledWith("llama");
+    });
+
+    it("shows pending expirations in list_loaded_models", async () => {
+      vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+      await loadModel({ model: "llama-3.2-3b", idleTtl: 600 });
+      const result = await listLoadedModels({});
+
+      expect(result.data?.[0].expiresAt).toBe("2026-01-01T00:10:00.000Z");
+    });
+
+    it("cancels the expiration when the model is unloaded", async () => {
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      await loadModel({ model: "llama-3.2-3b", idleTtl: 60 });
+      await unloadModel({ identifier: "llama" });
+      await vi.advanceTimersByTimeAsync(120_000);
+
+      expect(mockClient.llm.unload).toHaveBeenCalledTimes(1);
+      expect(getExpiresAt("llama")).toBeUndefined();
+    });
+
+    it("clears an idle TTL left by an earlier instance with the same identifier", async () => {
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      await loadModel({ model: "llama-3.2-3b", idleTtl: 60 });
+      // The first instance is unloaded in LM Studio itself, then loaded again without an idle TTL
+      const result = await loadModel({ model: "llama-3.2-3b" });
+      await vi.advanceTimersByTimeAsync(120_000);
+
+      expect(result.data?.expiresAt).toBeUndefined();
+      expect(getExpiresAt("llama")).toBeUndefined();
+      expect(mockClient.llm.unload).not.toHaveBeenCalled();
+    });
+
+    it("takes the idle TTL from load defaults", async () => {
+      setServerConfig({ loadDefaults: { idleTtl: 300 } });
+      vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+      const result = await loadModel({ model: "llama-3.2-3b" });
+      setServerConfig();
+
+      expect(result.data?.expiresAt).toBe("2026-01-01T00:05:00.000Z");
+    });
+  });
+
+  describe("model catalog", () => {
+    const option = (quantization: string, sizeBytes: number, recommended = false) => ({
+      name: `qwen2.5-7b-instruct-${quantization}.gguf`,
+      quantization,
+      sizeBytes,
+      fitEstimation: "fullGPUOffload",
+      isRecommended: () => recommended,
+      download: vi.fn().mockResolvedValue(`qwen/qwen2.5-7b-instruct@${quantization.toLowerCase()}`),
+    });
+
+    // Fake repository with one model offering two quantizations
+    const createClient = () => {
+      const options = [option("Q4_K_M", 4000, true), option("Q8_0", 8000)];
+      const entry = {
+        name: "qwen/qwen2.5-7b-instruct",
+        isExactMatch: () => true,
+        isStaffPick: () => false,
+        getDownloadOptions: vi.fn().mockResolvedValue(options),
+      };
+      return {
+        options,
+        repository: { searchModels: vi.fn().mockResolvedValue([entry]) },
+      };
+    };
+
+    it("searches the catalog with download options", async () => {
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await searchModels({ query: "qwen", limit: 5, formats: ["gguf"] });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.repository.searchModels).toHaveBeenCalledWith({
+        searchTerm: "qwen",
+        limit: 5,
+        compatibilityTypes: ["gguf"],
+      });
+      expect(result.data).toEqual([
+        {
+          name: "qwen/qwen2.5-7b-instruct",
+          exactMatch: true,
+          staffPick: false,
+          downloadOptions: [
+            {
+              name: "qwen2.5-7b-instruct-Q4_K_M.gguf",
+              quantization: "Q4_K_M",
+              sizeBytes: 4000,
+              fitEstimation: "fullGPUOffload",
+              recommended: true,
+            },
+            {
+              name: "qwen2.5-7b-instruct-Q8_0.gguf",
+              quantization: "Q8_0",
+              sizeBytes: 8000,
+              fitEstimation: "fullGPUOffload",
+              recommended: false,
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("downloads the recommended option and reports byte progress", async () => {
+      const mockClient = createClient();
+      mockClient.options[0].download.mockImplementation(async (opts) => {
+        opts.onProgress({ downloadedBytes: 1000, totalBytes: 4000, speedBytesPerSecond: 500 });
+        return "qwen/qwen2.5-7b-instruct@q4_k_m";
+      });
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+      const onProgress = vi.fn();
+
+      const result = await downloadModel({ model: "qwen/qwen2.5-7b-instruct" }, { onProgress });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.modelKey).toBe("qwen/qwen2.5-7b-instruct@q4_k_m");
+      expect(result.data?.option.quantization).toBe("Q4_K_M");
+      expect(onProgress).toHaveBeenCalledWith({
+        progress: 1000,
+        total: 4000,
+        message: "Downloading 'qwen/qwen2.5-7b-instruct' (Q4_K_M)",
+      });
+    });
+
+    it("downloads the requested quantization", async () => {
+      const mockClient = createClient();
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await downloadModel({ model: "qwen/qwen2.5-7b-instruct", quantization: "q8_0" });
+
+      expect(result.data?.modelKey).toBe("qwen/qwen2.5-7b-instruct@q8_0");
+      expect(mockClient.options[0].download).not.toHaveBeenCalled();
+    });
+
+    it("returns MODEL_NOT_FOUND for models not in the catalog", async () => {
+      vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+      const result = await downloadModel({ model: "qwen/qwen2.5-70b" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.MODEL_NOT_FOUND);
+      expect(result.error?.message).toBe("Similar models: qwen/qwen2.5-7b-instruct");
+    });
+
+    it("returns INVALID_INPUT for unknown quantizations", async () => {
+      vi.mocked(getClient).mockReturnValue(createClient() as never);
+
+      const result = await downloadModel({ model: "qwen/qwen2.5-7b-instruct", quantization: "Q2_K" });
+
+      expect(result.error?.code).toBe(ErrorCode.INVALID_INPUT);
+      expect(result.error?.message).toBe("Available: Q4_K_M, Q8_0");
+    });
+
+    it("aborts the download when the request is cancelled", async () => {
+      const mockClient = createClient();
+      mockClient.options[0].download.mockImplementation(
+        (opts) =>
+          new Promise((_resolve, reject) => {
+            opts.signal.addEventListener("abort", () => reject(new Error("Download aborted")));
+          }),
+      );
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+      const controller = new AbortController();
+
+      const pending = downloadModel({ model: "qwen/qwen2.5-7b-instruct" }, { signal: controller.signal });
+      await vi.waitFor(() => expect(mockClient.options[0].download).toHaveBeenCalled());
+      controller.abort();
+      const result = await pending;
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.DOWNLOAD_CANCELLED);
+    });
+
+    it("returns DOWNLOAD_FAILED when the download fails", async () => {
+      const mockClient = createClient();
+      mockClient.options[0].download.mockRejectedValue(new Error("Disk full"));
+      vi.mocked(getClient).mockReturnValue(mockClient as never);
+
+      const result = await downloadModel({ model: "qwen/qwen2.5-7b-instruct" });
+
+      expect(result.error?.code).toBe(ErrorCode.DOWNLOAD_FAILED);
+      expect(result.error?.message).toBe("Disk full");
+    });
+  });
+
+  describe("healthCheck", () => {
+    it("returns success when connected", async () => {
+      vi.mocked(testConnection).mockResolvedValue({
+        backend: "default",
+        connected: true,
         baseUrl: "ws://127.0.0.1:1234",
+        connection: { state: "connected", reconnectAttempts: 0, history: [] },
       });
 
       const result = await healthCheck({});
@@ -331,9 +2403,11 @@ describe("tool handlers", () => {
 
     it("returns error when not connected", async () => {
       vi.mocked(testConnection).mockResolvedValue({
+        backend: "default",
         connected: false,
         baseUrl: "ws://127.0.0.1:1234",
         error: "ECONNREFUSED",
+        connection: { state: "disconnected", reconnectAttempts: 0, history: [] },
       });
 
       const result = await healthCheck({});
@@ -345,8 +2419,10 @@ describe("tool handlers", () => {
 
     it("uses default error message when none provided", async () => {
       vi.mocked(testConnection).mockResolvedValue({
+        backend: "default",
         connected: false,
         baseUrl: "ws://127.0.0.1:1234",
+        connection: { state: "disconnected", reconnectAttempts: 0, history: [] },
       });
 
       const result = await healthCheck({});
@@ -354,5 +2430,164 @@ describe("tool handlers", () => {
       expect(result.success).toBe(false);
       expect(result.error?.message).toBe("Connection failed");
     });
+
+    it("reports connection state history", async () => {
+      const history = [
+        { state: "connecting" as const, at: "2026-01-01T00:00:00.000Z" },
+        { state: "connected" as const, at: "2026-01-01T00:00:01.000Z" },
+        { state: "degraded" as const, at: "2026-01-01T00:05:00.000Z", error: "WebSocket closed" },
+        { state: "connected" as const, at: "2026-01-01T00:05:01.000Z" },
+      ];
+      vi.mocked(testConnection).mockResolvedValue({
+        backend: "default",
+        connected: true,
+        baseUrl: "ws://127.0.0.1:1234",
+        connection: {
+          state: "connected",
+          lastConnectedAt: "2026-01-01T00:05:01.000Z",
+          reconnectAttempts: 1,
+          history,
+        },
+      });
+
+      const result = await healthCheck({});
+
+      expect(result.data).toMatchObject({
+        state: "connected",
+        lastConnectedAt: "2026-01-01T00:05:01.000Z",
+        reconnectAttempts: 1,
+        history,
+      });
+    });
+
+    it("includes last connected time and reconnect attempts when not connected", async () => {
+      vi.mocked(testConnection).mockResolvedValue({
+        backend: "default",
+        connected: false,
+        baseUrl: "ws://127.0.0.1:1234",
+        error: "ECONNREFUSED",
+        connection: {
+          state: "disconnected",
+          lastConnectedAt: "2026-01-01T00:00:01.000Z",
+          reconnectAttempts: 3,
+          history: [],
+        },
+      });
+
+      const result = await healthCheck({});
+
+      expect(result.message).toBe(
+        "Failed to connect to LM Studio at ws://127.0.0.1:1234 (last connected 2026-01-01T00:00:01.000Z, 3 reconnect attempt(s))",
+      );
+    });
+
+    it("returns the connection state history when not connected", async () => {
+      const history = [
+        { state: "connected" as const, at: "2026-01-01T00:00:01.000Z" },
+        { state: "degraded" as const, at: "2026-01-01T00:05:00.000Z", error: "WebSocket closed" },
+        { state: "disconnected" as const, at: "2026-01-01T00:05:02.000Z", error: "ECONNREFUSED" },
+      ];
+      vi.mocked(testConnection).mockResolvedValue({
+        backend: "default",
+        connected: false,
+        baseUrl: "ws://127.0.0.1:1234",
+        error: "ECONNREFUSED",
+        connection: {
+          state: "disconnected",
+          lastConnectedAt: "2026-01-01T00:00:01.000Z",
+          lastError: "ECONNREFUSED",
+          reconnectAttempts: 3,
+          history,
+        },
+      });
+
+      const result = await healthCheck({});
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.CONNECTION_FAILED);
+      expect(result.data).toEqual({
+        backend: "default",
+        connected: false,
+        baseUrl: "ws://127.0.0.1:1234",
+        state: "disconnected",
+        lastConnectedAt: "2026-01-01T00:00:01.000Z",
+        reconnectAttempts: 3,
+        history,
+      });
+    });
+
+    it("checks the named backend", async () => {
+      vi.mocked(testConnection).mockResolvedValue({
+        backend: "lab",
+        connected: true,
+        baseUrl: "ws://lab:1234",
+        connection: { state: "connected", reconnectAttempts: 0, history: [] },
+      });
+
+      const result = await healthCheck({ backend: "lab" });
+
+      expect(testConnection).toHaveBeenCalledWith(undefined, "lab");
+      expect(result.data?.backend).toBe("lab");
+    });
+
+    it("returns BACKEND_NOT_FOUND for an unknown backend", async () => {
+      vi.mocked(testConnection).mockRejectedValue(new BackendNotFoundError("nope"));
+
+      const result = await healthCheck({ backend: "nope" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.BACKEND_NOT_FOUND);
+    });
+  });
+
+  describe("listBackends", () => {
+    afterEach(() => {
+      delete process.env.LMSTUDIO_BACKENDS;
+    });
+
+    it("checks every configured backend", async () => {
+      process.env.LMSTUDIO_BACKENDS = "desk=ws://desk:1234,lab=ws://lab:1234";
+      vi.mocked(testConnection).mockImplementation(async (_timeout, backend) =>
+        backend === "desk"
+          ? {
+              backend,
+              connected: true,
+              baseUrl: "ws://desk:1234",
+              connection: { state: "connected", reconnectAttempts: 0, history: [] },
+            }
+          : {
+              backend: backend as string,
+              connected: false,
+              baseUrl: "ws://lab:1234",
+              error: "ECONNREFUSED",
+              connection: { state: "disconnected", reconnectAttempts: 3, history: [] },
+            },
+      );
+
+      const result = await listBackends({});
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("1 of 2 backend(s) reachable");
+      expect(result.data).toEqual([
+        { name: "desk", baseUrl: "ws://desk:1234", isDefault: true, connected: true, state: "connected" },
+        {
+          name: "lab",
+          baseUrl: "ws://lab:1234",
+          isDefault: false,
+          connected: false,
+          state: "disconnected",
+          error: "ECONNREFUSED",
+        },
+      ]);
+    });
+
+    it("returns an error for invalid backend configuration", async () => {
+      process.env.LMSTUDIO_BACKENDS = "not-a-pair";
+
+      const result = await listBackends({});
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("Invalid LMSTUDIO_BACKENDS entry 1");
+    });
   });
 });
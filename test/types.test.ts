@@ -6,6 +6,9 @@ import {
   ErrorCode,
   withErrorHandling,
   withTimeout,
+  TimeoutError,
+  BackendNotFoundError,
+  checkContextFit,
   DEFAULT_TIMEOUT,
 } from "../src/types.js";
 
@@ -56,6 +59,10 @@ describe("types", () => {
   });
 
   describe("mapErrorCode", () => {
+    it("maps BackendNotFoundError to BACKEND_NOT_FOUND", () => {
+      expect(mapErrorCode(new BackendNotFoundError("lab"))).toBe(ErrorCode.BACKEND_NOT_FOUND);
+    });
+
     it("maps 'not found' errors to MODEL_NOT_LOADED", () => {
       expect(mapErrorCode(new Error("Model not found"))).toBe(ErrorCode.MODEL_NOT_LOADED);
       expect(mapErrorCode(new Error("No loaded model with identifier"))).toBe(ErrorCode.MODEL_NOT_LOADED);
@@ -133,6 +140,29 @@ describe("types", () => {
     });
   });
 
+  describe("checkContextFit", () => {
+    it("reports headroom when the count fits", () => {
+      expect(checkContextFit(1000, 4096)).toEqual({
+        tokenCount: 1000,
+        contextLength: 4096,
+        reservedTokens: 0,
+        fitsInContext: true,
+        remainingTokens: 3096,
+      });
+    });
+
+    it("counts reserved tokens against the window", () => {
+      const fit = checkContextFit(3000, 4096, 1500);
+
+      expect(fit.fitsInContext).toBe(false);
+      expect(fit.remainingTokens).toBe(-404);
+    });
+
+    it("fits exactly at the limit", () => {
+      expect(checkContextFit(4096, 4096).fitsInContext).toBe(true);
+    });
+  });
+
   describe("withTimeout", () => {
     it("returns result when operation completes in time", async () => {
       const result = await withTimeout(Promise.resolve("success"), 1, "Test operation");
@@ -148,6 +178,15 @@ describe("types", () => {
       );
     });
 
+    it("rejects with a TimeoutError carrying the limit", async () => {
+      const slowPromise = new Promise((resolve) => setTimeout(() => resolve("done"), 200));
+
+      const error = await withTimeout(slowPromise, 0.05, "Slow operation").catch((e) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.timeoutSeconds).toBe(0.05);
+    });
+
     it("propagates original error when operation fails", async () => {
       const failingPromise = Promise.reject(new Error("Original error"));
 